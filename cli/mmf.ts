@@ -0,0 +1,431 @@
+/**
+ * MMF command line tool
+ * Inspects, validates and converts MMF files in Node, without a browser:
+ *   npm run -s mmf -- <info|validate|dump|convert> [options] <file or directory>...
+ */
+
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { formatChunkId, MMFData, MMFIssue, MMFMetadata, MMFParser, waveKey } from '../lib/mmf-parser';
+import { validateMMF } from '../lib/mmf-validator';
+import { ChunkNode, getSongStats, readChunkTree } from '../lib/mmf-inspector';
+import { writeMIDI } from '../lib/midi-writer';
+import { DEFAULT_RENDER_CHANNELS, DEFAULT_RENDER_SAMPLE_RATE, renderMMFToWAV } from '../lib/offline-renderer';
+import { TEXT_ENCODINGS, TextEncoding } from '../lib/content-info';
+import { isMMFFile } from '../lib/playlist';
+import { SynthMode } from '../lib/voice-engine';
+
+const EXIT_INVALID = 1;  // Some file was invalid or could not be processed
+const EXIT_USAGE = 2;
+
+const COMMANDS = ['info', 'validate', 'dump', 'convert'] as const;
+const FORMATS = ['mid', 'wav', 'json'] as const;
+const SYNTH_MODES: SynthMode[] = ['fm', 'simple'];
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const METADATA_LABELS: Record<keyof MMFMetadata, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  composer: 'Composer',
+  arranger: 'Arranger',
+  lyricist: 'Lyricist',
+  copyright: 'Copyright',
+  managementInfo: 'Management',
+  createdDate: 'Created',
+  modifiedDate: 'Modified',
+  editStatus: 'Edit status',
+  vendor: 'Vendor',
+  carrier: 'Carrier',
+  url: 'URL',
+  encoding: 'Encoding'
+};
+
+const USAGE = `Usage: npm run -s mmf -- <command> [options] <file or directory>...
+
+Commands:
+  info       Metadata, tempo, duration, note count and per-channel stats
+  validate   Check the container and track contents
+  dump       Chunk tree with offsets, then every decoded event
+  convert    Write each file as .mid, .wav or .json (--format)
+
+Options:
+  --json                   Print one JSON object per file and line (info, validate, dump)
+  --format <mid|wav|json>  Output format for convert
+  --out <dir>              Directory for converted files (default: next to each input)
+  --encoding <label>       Decode metadata in this encoding instead of the detected one
+                           (${TEXT_ENCODINGS.join(', ')})
+  --sample-rate <hz>       WAV sample rate (default ${DEFAULT_RENDER_SAMPLE_RATE})
+  --channels <1|2>         WAV channels (default ${DEFAULT_RENDER_CHANNELS})
+  --synth <fm|simple>      WAV voice engine (default fm)
+  -h, --help               Show this help
+
+Directories are searched recursively for .mmf and .smaf files. The exit status
+is ${EXIT_INVALID} when any file is invalid or fails, ${EXIT_USAGE} on usage errors.`;
+
+type Command = typeof COMMANDS[number];
+type OutputFormat = typeof FORMATS[number];
+
+interface Options {
+  json: boolean;
+  format?: OutputFormat;
+  out?: string;
+  encoding?: TextEncoding;
+  sampleRate: number;
+  channels: number;
+  synthMode: SynthMode;
+}
+
+interface InputFile {
+  path: string;
+  root?: string;  // Directory the file was found in, whose layout --out keeps
+}
+
+interface ParsedFile {
+  data: MMFData;
+  errors: MMFIssue[];  // Errors the parser found in track contents
+}
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+  let command: Command;
+  let inputs: string[];
+  let options: Options;
+  try {
+    const parsed = parseCommandLine(argv);
+    if (!parsed) {
+      console.log(USAGE);
+      return 0;
+    }
+    ({ command, inputs, options } = parsed);
+  } catch (error) {
+    console.error(`${errorMessage(error)}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  let failed = false;
+  for (const input of inputs) {
+    let files: InputFile[];
+    try {
+      files = await collectFiles(input);
+    } catch (error) {
+      console.error(`${input}: ${errorMessage(error)}`);
+      failed = true;
+      continue;
+    }
+    if (files.length === 0) {
+      console.error(`${input}: no .mmf or .smaf files found`);
+    }
+
+    for (const file of files) {
+      try {
+        if (!await run(command, file, options)) failed = true;
+      } catch (error) {
+        console.error(`${file.path}: ${errorMessage(error)}`);
+        failed = true;
+      }
+    }
+  }
+
+  return failed ? EXIT_INVALID : 0;
+}
+
+/** Command, inputs and options, or null when help was asked for. */
+function parseCommandLine(argv: string[]): { command: Command; inputs: string[]; options: Options } | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      encoding: { type: 'string' },
+      'sample-rate': { type: 'string' },
+      channels: { type: 'string' },
+      synth: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) return null;
+
+  const [command, ...inputs] = positionals;
+  if (!command) throw new UsageError('No command given');
+  if (!isOneOf(COMMANDS, command)) throw new UsageError(`Unknown command "${command}"`);
+  if (inputs.length === 0) throw new UsageError('No files given');
+
+  if (values.format !== undefined && !isOneOf(FORMATS, values.format)) {
+    throw new UsageError(`Unknown format "${values.format}"`);
+  }
+  if (command === 'convert' && values.format === undefined) {
+    throw new UsageError('convert needs --format mid, wav or json');
+  }
+  if (values.encoding !== undefined && !isOneOf(TEXT_ENCODINGS, values.encoding)) {
+    throw new UsageError(`Unknown encoding "${values.encoding}"`);
+  }
+  if (values.synth !== undefined && !isOneOf(SYNTH_MODES, values.synth)) {
+    throw new UsageError(`Unknown synth "${values.synth}"`);
+  }
+
+  const sampleRate = Number(values['sample-rate'] ?? DEFAULT_RENDER_SAMPLE_RATE);
+  if (!Number.isInteger(sampleRate) || sampleRate < 3000 || sampleRate > 768000) {
+    throw new UsageError('--sample-rate must be a whole number from 3000 to 768000');
+  }
+  const channels = Number(values.channels ?? DEFAULT_RENDER_CHANNELS);
+  if (channels !== 1 && channels !== 2) {
+    throw new UsageError('--channels must be 1 or 2');
+  }
+
+  return {
+    command,
+    inputs,
+    options: {
+      json: values.json,
+      format: values.format,
+      out: values.out,
+      encoding: values.encoding,
+      sampleRate,
+      channels,
+      synthMode: values.synth ?? 'fm'
+    }
+  };
+}
+
+/** Whether the command found the file valid. */
+async function run(command: Command, file: InputFile, options: Options): Promise<boolean> {
+  const buffer = await readBuffer(file.path);
+
+  if (command === 'validate') {
+    const report = validateMMF(buffer, { encoding: options.encoding });
+    if (options.json) {
+      console.log(JSON.stringify({ file: file.path, ...report }));
+    } else {
+      const errors = report.issues.filter(issue => issue.severity === 'error').length;
+      const warnings = report.issues.length - errors;
+      console.log(`${file.path}: ${report.valid ? 'OK' : 'INVALID'}${countSummary(errors, warnings)}`);
+      for (const issue of report.issues) console.log(`  ${formatIssue(issue)}`);
+    }
+    return report.valid;
+  }
+
+  const song = parseSong(buffer, options.encoding);
+  // Track errors don't stop the command, but the file still counts as invalid
+  for (const issue of song.errors) console.error(`${file.path}: ${formatIssue(issue)}`);
+
+  switch (command) {
+    case 'info':
+      printInfo(file, song, options);
+      break;
+    case 'dump':
+      printDump(file, buffer, song, options);
+      break;
+    case 'convert':
+      await convert(file, song.data, options);
+      break;
+  }
+  return song.errors.length === 0;
+}
+
+function parseSong(buffer: ArrayBuffer, encoding?: TextEncoding): ParsedFile {
+  const parser = new MMFParser(buffer, { encoding });
+  const data = parser.parse();
+  return { data, errors: parser.getIssues().filter(issue => issue.severity === 'error') };
+}
+
+function printInfo(file: InputFile, { data, errors }: ParsedFile, options: Options): void {
+  const stats = getSongStats(data);
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      file: file.path,
+      valid: errors.length === 0,
+      metadata: data.metadata,
+      tempo: data.tempo,
+      timeSignature: data.timeSignature,
+      duration: data.duration,
+      ...stats
+    }));
+    return;
+  }
+
+  const lines = [file.path];
+  for (const [key, label] of Object.entries(METADATA_LABELS) as Array<[keyof MMFMetadata, string]>) {
+    const value = data.metadata[key];
+    if (value) lines.push(field(label, value));
+  }
+  const tempoChanges = stats.tempoChanges > 0 ? ` (${stats.tempoChanges} tempo changes)` : '';
+  lines.push(field('Tempo', `${data.tempo} BPM, ${data.timeSignature.numerator}/${data.timeSignature.denominator}${tempoChanges}`));
+  lines.push(field('Duration', formatTime(data.duration)));
+  lines.push(field('Notes', String(stats.notes)));
+  if (stats.audioEvents > 0) lines.push(field('Audio', `${stats.audioEvents} events, ${stats.waves} waves`));
+
+  if (stats.channels.length > 0) {
+    lines.push('  Channel  Notes  Range      Velocity  Voices  Programs');
+    for (const channel of stats.channels) {
+      const range = channel.lowestNote !== undefined && channel.highestNote !== undefined
+        ? `${noteName(channel.lowestNote)}-${noteName(channel.highestNote)}`
+        : '-';
+      const velocity = channel.averageVelocity !== undefined ? channel.averageVelocity.toFixed(1) : '-';
+      lines.push(
+        `  ${String(channel.channel + 1).padStart(7)}  ${String(channel.notes).padStart(5)}  ${range.padEnd(9)}  ` +
+        `${velocity.padStart(8)}  ${String(channel.embeddedVoices).padStart(6)}  ${channel.programs.join(', ') || '-'}`
+      );
+    }
+  }
+
+  console.log(lines.join('\n') + '\n');
+}
+
+function printDump(file: InputFile, buffer: ArrayBuffer, { data }: ParsedFile, options: Options): void {
+  const chunks = readChunkTree(buffer);
+
+  if (options.json) {
+    const toJSON = (chunk: ChunkNode): object => ({
+      ...chunk,
+      id: formatChunkId(chunk.id),
+      children: chunk.children.map(toJSON)
+    });
+    console.log(JSON.stringify({
+      file: file.path,
+      chunks: chunks.map(toJSON),
+      notes: data.notes,
+      channelEvents: data.channelEvents,
+      audioEvents: data.audioEvents
+    }));
+    return;
+  }
+
+  const lines = [file.path, 'Chunks'];
+  const addChunk = (chunk: ChunkNode, depth: number) => {
+    lines.push(`  ${'  '.repeat(depth)}${hex(chunk.offset, 8)}  ${formatChunkId(chunk.id).padEnd(8)}  ${chunk.size} bytes`);
+    for (const child of chunk.children) addChunk(child, depth + 1);
+  };
+  for (const chunk of chunks) addChunk(chunk, 0);
+
+  // Channel events sort before notes at the same time, as they apply first
+  const events: Array<{ time: number; order: number; channel: string; text: string }> = [];
+  for (const event of data.channelEvents) {
+    const controller = event.controller !== undefined ? ` ${event.controller}` : '';
+    events.push({ time: event.time, order: 0, channel: String(event.channel + 1), text: `${event.type}${controller} ${event.value}` });
+  }
+  for (const note of data.notes) {
+    events.push({
+      time: note.time,
+      order: 1,
+      channel: String(note.channel + 1),
+      text: `note ${noteName(note.note)} (${note.note}) velocity ${note.velocity} length ${note.duration.toFixed(3)}`
+    });
+  }
+  for (const event of data.audioEvents) {
+    events.push({ time: event.time, order: 1, channel: `A${event.channel + 1}`, text: `wave ${waveKey(event.track, event.wave)} length ${event.duration.toFixed(3)}` });
+  }
+  events.sort((a, b) => a.time - b.time || a.order - b.order);
+
+  lines.push('Events', '    Time (ms)  Ch  Event');
+  for (const event of events) {
+    lines.push(`  ${event.time.toFixed(3).padStart(11)}  ${event.channel.padStart(2)}  ${event.text}`);
+  }
+
+  console.log(lines.join('\n') + '\n');
+}
+
+async function convert(file: InputFile, data: MMFData, options: Options): Promise<void> {
+  let contents: ArrayBuffer | string;
+  switch (options.format) {
+    case 'mid':
+      contents = writeMIDI(data);
+      break;
+    case 'wav':
+      contents = await renderMMFToWAV(data, {
+        sampleRate: options.sampleRate,
+        channels: options.channels,
+        synthMode: options.synthMode
+      });
+      break;
+    default:
+      contents = JSON.stringify(songToJSON(data), null, 2);
+      break;
+  }
+
+  const output = outputPath(file, options);
+  await mkdir(path.dirname(output), { recursive: true });
+  await writeFile(output, typeof contents === 'string' ? contents : new Uint8Array(contents));
+  console.log(`${file.path} -> ${output}`);
+}
+
+/** Parsed data with each wave's samples replaced by its length. */
+function songToJSON(data: MMFData): object {
+  const waves = Object.fromEntries(Object.entries(data.waves).map(([key, wave]) => [
+    key,
+    { sampleRate: wave.sampleRate, channels: wave.samples.length, frames: wave.samples[0]?.length ?? 0 }
+  ]));
+  return { ...data, waves };
+}
+
+function outputPath(file: InputFile, options: Options): string {
+  const name = `${path.basename(file.path, path.extname(file.path))}.${options.format}`;
+  if (options.out === undefined) return path.join(path.dirname(file.path), name);
+
+  // Files found in a directory keep their subfolder under --out
+  const folder = file.root !== undefined ? path.relative(file.root, path.dirname(file.path)) : '';
+  return path.join(options.out, folder, name);
+}
+
+/** The file itself, or the MMF files under a directory in path order. */
+async function collectFiles(input: string): Promise<InputFile[]> {
+  if (!(await stat(input)).isDirectory()) return [{ path: input }];
+
+  const entries = await readdir(input, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && isMMFFile(entry.name))
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .sort()
+    .map(filePath => ({ path: filePath, root: input }));
+}
+
+async function readBuffer(filePath: string): Promise<ArrayBuffer> {
+  const contents = await readFile(filePath);
+  return new Uint8Array(contents).buffer;
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: string): value is T {
+  return (values as readonly string[]).includes(value);
+}
+
+function field(label: string, value: string): string {
+  return `  ${`${label}:`.padEnd(13)} ${value}`;
+}
+
+function countSummary(errors: number, warnings: number): string {
+  const parts = [];
+  if (errors > 0) parts.push(`${errors} error${errors === 1 ? '' : 's'}`);
+  if (warnings > 0) parts.push(`${warnings} warning${warnings === 1 ? '' : 's'}`);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+function formatIssue(issue: MMFIssue): string {
+  return `${issue.severity.padEnd(7)}  ${hex(issue.offset, 8)}  ${issue.message}`;
+}
+
+/** Minutes, seconds and milliseconds, e.g. 1:05.250. */
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}.${Math.floor(ms % 1000).toString().padStart(3, '0')}`;
+}
+
+/** Note name with octave, middle C (60) being C4. */
+function noteName(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+}
+
+function hex(value: number, digits: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
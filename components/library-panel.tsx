@@ -0,0 +1,101 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { LibrarySong, searchLibrary } from '@/lib/library';
+
+interface LibraryPanelProps {
+  songs: LibrarySong[];
+  currentId?: number;         // Library ID of the loaded song
+  onOpen: (song: LibrarySong) => void;
+  onFavoriteChange: (song: LibrarySong, favorite: boolean) => void;
+  onExport: (song: LibrarySong) => void;
+  onDelete: (song: LibrarySong) => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export default function LibraryPanel({ songs, currentId, onOpen, onFavoriteChange, onExport, onDelete }: LibraryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const results = useMemo(() => searchLibrary(songs, query, favoritesOnly), [songs, query, favoritesOnly]);
+
+  return (
+    <div className="flex flex-col bg-white rounded-lg shadow-lg overflow-hidden">
+      <div className="px-4 pt-4 pb-2 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-lg font-bold text-gray-800">ライブラリ</span>
+          <span className="text-xs text-gray-500">{songs.length}曲</span>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="曲名・作曲者で検索"
+            className="flex-1 min-w-0 px-3 py-1 rounded border border-gray-300 text-gray-800"
+          />
+          <button
+            onClick={() => setFavoritesOnly(!favoritesOnly)}
+            className={`px-2 py-1 rounded border transition-colors ${
+              favoritesOnly ? 'bg-yellow-400 border-yellow-400 text-white' : 'bg-white border-gray-300 text-gray-500 hover:border-gray-400'
+            }`}
+            title="お気に入りのみ表示"
+          >
+            ★
+          </button>
+        </div>
+      </div>
+
+      {songs.length === 0 ? (
+        <p className="flex-1 px-4 pb-4 text-sm text-gray-500">
+          読み込んだMMFファイルはここに保存され、次回以降もすぐに開けます
+        </p>
+      ) : results.length === 0 ? (
+        <p className="flex-1 px-4 pb-4 text-sm text-gray-500">見つかりませんでした</p>
+      ) : (
+        <ul className="flex-1 max-h-72 overflow-y-auto divide-y divide-gray-100 text-sm">
+          {results.map((song) => (
+            <li
+              key={song.id}
+              className={`flex items-center gap-2 px-4 py-2 ${song.id === currentId ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+            >
+              <button
+                onClick={() => onFavoriteChange(song, !song.favorite)}
+                className={song.favorite ? 'text-yellow-400' : 'text-gray-300 hover:text-gray-400'}
+                title={song.favorite ? 'お気に入りから外す' : 'お気に入りに追加'}
+              >
+                {song.favorite ? '★' : '☆'}
+              </button>
+              <button onClick={() => onOpen(song)} className="flex-1 min-w-0 text-left" title={song.name}>
+                <span className={`block truncate ${song.id === currentId ? 'font-medium text-purple-700' : 'text-gray-800'}`}>
+                  {song.metadata.title || song.name}
+                </span>
+                <span className="block truncate text-xs text-gray-400">
+                  {[song.metadata.composer, formatDuration(song.duration)].filter(Boolean).join(' ・ ')}
+                  {song.lastPosition > 0 && ` ・ ${formatDuration(song.lastPosition)} から再開`}
+                </span>
+              </button>
+              <button
+                onClick={() => onExport(song)}
+                className="w-6 h-6 rounded text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                title="ファイルを保存"
+              >
+                ⬇
+              </button>
+              <button
+                onClick={() => onDelete(song)}
+                className="w-6 h-6 rounded text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                title="ライブラリから削除"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
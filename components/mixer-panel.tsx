@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChannelMix, createChannelMix } from '@/lib/channel-mixer';
+
+export interface MixerChannel {
+  channel: number;
+  noteCount: number;
+}
+
+interface MixerPanelProps {
+  channels: MixerChannel[];
+  mixes: Record<number, ChannelMix>;
+  onChange: (channel: number, changes: Partial<ChannelMix>) => void;
+  getLevel: (channel: number) => number;
+  metering: boolean;  // Poll levels for the meters (while playing)
+}
+
+export default function MixerPanel({ channels, mixes, onChange, getLevel, metering }: MixerPanelProps) {
+  const [levels, setLevels] = useState<Record<number, number>>({});
+
+  // Poll channel levels once per frame while metering
+  useEffect(() => {
+    if (!metering) return;
+
+    let frame = requestAnimationFrame(function update() {
+      setLevels(Object.fromEntries(channels.map(({ channel }) => [channel, getLevel(channel)])));
+      frame = requestAnimationFrame(update);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      setLevels({});
+    };
+  }, [channels, getLevel, metering]);
+
+  if (channels.length === 0) return null;
+
+  return (
+    <details className="mt-6 rounded-lg border border-gray-200 bg-gray-50">
+      <summary className="px-4 py-2 text-sm font-medium text-gray-700 cursor-pointer select-none">
+        🎚 ミキサー（{channels.length}チャンネル）
+      </summary>
+
+      <div className="px-4 pb-4 space-y-2 text-sm text-gray-700">
+        {channels.map(({ channel, noteCount }) => {
+          const mix = mixes[channel] ?? createChannelMix();
+          const level = levels[channel] ?? 0;
+          return (
+            <div key={channel} className="flex flex-wrap items-center gap-3">
+              <span className="w-12 font-mono font-medium">Ch {channel + 1}</span>
+              <span className="w-20 text-xs text-gray-500">音符 {noteCount}</span>
+
+              <button
+                onClick={() => onChange(channel, { mute: !mix.mute })}
+                className={`w-7 h-7 rounded text-xs font-bold border ${
+                  mix.mute ? 'bg-red-500 border-red-500 text-white' : 'bg-white border-gray-300'
+                }`}
+                title="ミュート"
+              >
+                M
+              </button>
+              <button
+                onClick={() => onChange(channel, { solo: !mix.solo })}
+                className={`w-7 h-7 rounded text-xs font-bold border ${
+                  mix.solo ? 'bg-yellow-400 border-yellow-400 text-white' : 'bg-white border-gray-300'
+                }`}
+                title="ソロ"
+              >
+                S
+              </button>
+
+              <label className="flex items-center gap-1">
+                <span className="text-xs text-gray-500">音量</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={mix.volume}
+                  onChange={(e) => onChange(channel, { volume: Number(e.target.value) })}
+                  className="w-24"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                <span className="text-xs text-gray-500">パン</span>
+                <input
+                  type="range"
+                  min={-1}
+                  max={1}
+                  step={0.01}
+                  value={mix.pan}
+                  onChange={(e) => onChange(channel, { pan: Number(e.target.value) })}
+                  onDoubleClick={() => onChange(channel, { pan: 0 })}
+                  className="w-20"
+                />
+              </label>
+
+              {/* Level meter */}
+              <div className="flex-1 min-w-16 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${level > 0.9 ? 'bg-red-500' : 'bg-green-500'}`}
+                  style={{ width: `${level * 100}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+}
@@ -1,28 +1,128 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { parseMMF, MMFData } from '@/lib/mmf-parser';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { parseMMF, parseMMFMetadata, MMFData, MMFLoop } from '@/lib/mmf-parser';
+import { MetadataTextField, TextEncoding, TEXT_ENCODINGS } from '@/lib/content-info';
 import { MMFPlayer, PlayerState } from '@/lib/mmf-player';
+import { SynthMode } from '@/lib/voice-engine';
+import { renderMMFToWAV } from '@/lib/offline-renderer';
+import { writeMIDI } from '@/lib/midi-writer';
+import { writeMMF } from '@/lib/mmf-writer';
+import { ValidationReport } from '@/lib/mmf-validator';
+import { ChannelMix, isChannelMuted } from '@/lib/channel-mixer';
+import {
+  adjacentTrack, collectDroppedFiles, createTrack, isArchiveFile, isSongFile, ParsedSong, PlaylistFile,
+  PlaylistTrack, RepeatMode, shuffleTracks, SongCache, summarizeTrack, unpackArchive
+} from '@/lib/playlist';
+import { LibrarySong, MMFLibrary, openLibrary } from '@/lib/library';
 import PianoRoll from '@/components/piano-roll';
+import ValidationPanel from '@/components/validation-panel';
+import MixerPanel, { MixerChannel } from '@/components/mixer-panel';
+import PlaylistPanel from '@/components/playlist-panel';
+import LibraryPanel from '@/components/library-panel';
+
+const WAV_SAMPLE_RATES = [22050, 44100, 48000];
+const SEEK_STEP = 5000; // Arrow key seek distance in milliseconds
+const LOOP_COUNTS = [Infinity, 2, 3, 5, 10];
+const POSITION_SAVE_INTERVAL = 5000; // How often the library song's position is saved while playing (ms)
+
+// Metadata fields shown in the file information panel, in display order
+const METADATA_LABELS: Array<[MetadataTextField, string]> = [
+  ['title', '曲名'],
+  ['artist', 'アーティスト'],
+  ['composer', '作曲者'],
+  ['lyricist', '作詞者'],
+  ['arranger', '編曲者'],
+  ['copyright', '著作権'],
+  ['vendor', 'ベンダー'],
+  ['carrier', 'キャリア'],
+  ['managementInfo', '管理情報'],
+  ['createdDate', '作成日'],
+  ['modifiedDate', '更新日'],
+  ['editStatus', '編集状態'],
+  ['url', 'URL'],
+];
+
+const ENCODING_NAMES: Record<TextEncoding, string> = {
+  'shift_jis': 'Shift_JIS',
+  'euc-kr': 'EUC-KR',
+  'utf-8': 'UTF-8',
+  'utf-16be': 'UTF-16BE',
+  'utf-16le': 'UTF-16LE',
+  'utf-32be': 'UTF-32BE',
+  'utf-7': 'UTF-7',
+  'big5': 'Big5',
+  'gbk': 'GBK',
+  'hz-gb-2312': 'HZ-GB-2312',
+  'iso-8859-1': 'ISO-8859-1',
+  'koi8-r': 'KOI8-R',
+  'windows-1258': 'Windows-1258',
+};
+
+/** Base name for exported files: the song title, or the file name without its extension. */
+function exportBaseName(data: MMFData, fileName: string): string {
+  const name = data.metadata.title || fileName.replace(/\.[^.]+$/, '') || 'mmf';
+  return name.replace(/[\\/:*?"<>|]/g, '_');
+}
+
+/** Save generated data through a temporary download link. */
+function downloadFile(data: ArrayBuffer, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
 export default function MMFPlayerUI() {
   const [mmfData, setMMFData] = useState<MMFData | null>(null);
   const [fileName, setFileName] = useState<string>('');
   const [fileSize, setFileSize] = useState<number>(0);
   const [error, setError] = useState<string>('');
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [playerState, setPlayerState] = useState<PlayerState>('idle');
   const [progress, setProgress] = useState(0);
+  const [synthMode, setSynthMode] = useState<SynthMode>('fm');
+  const [wavSampleRate, setWavSampleRate] = useState(44100);
+  const [wavChannels, setWavChannels] = useState(2);
+  const [isExporting, setIsExporting] = useState(false);
+  const [detectedEncoding, setDetectedEncoding] = useState<TextEncoding | undefined>(undefined);
+  const [encodingOverride, setEncodingOverride] = useState<TextEncoding | ''>('');
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [loopCount, setLoopCount] = useState(Infinity);
+  const [loopRange, setLoopRange] = useState<MMFLoop | null>(null); // A–B range set on the piano roll
+  const [channelMixes, setChannelMixes] = useState<Record<number, ChannelMix>>({});
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [transpose, setTranspose] = useState(0);
+  const [tracks, setTracks] = useState<PlaylistTrack[]>([]);
+  const [currentTrackId, setCurrentTrackId] = useState<number | null>(null);
+  const [shuffledIds, setShuffledIds] = useState<number[] | null>(null); // Play order while shuffling
+  const [repeat, setRepeat] = useState<RepeatMode>('off');
+  const [parseProgress, setParseProgress] = useState<number | null>(null); // While the loaded file is parsed
+  const [librarySongs, setLibrarySongs] = useState<LibrarySong[] | null>(null); // Null until the library opens
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mmfBufferRef = useRef<ArrayBuffer | null>(null); // Kept to decode metadata again
   const playerRef = useRef<MMFPlayer | null>(null);
+  const songCacheRef = useRef(new SongCache());
+  const currentTrackRef = useRef<number | null>(null); // Track being loaded, to drop stale loads
+  const tracksRef = useRef<PlaylistTrack[]>([]);
+  const parseGenerationRef = useRef(0); // Bumped by each drop; older list parsing stops
+  const handleEndRef = useRef<() => void>(() => {});
+  const libraryRef = useRef<MMFLibrary | null>(null);
+  const libraryIdRef = useRef<number | undefined>(undefined); // Library ID of the loaded song
 
   // Initialize player
   useEffect(() => {
     playerRef.current = new MMFPlayer({
       onProgress: (p) => setProgress(p),
       onStateChange: (state) => setPlayerState(state),
-      onEnd: () => setProgress(1),
+      onEnd: () => {
+        setProgress(1);
+        handleEndRef.current();
+      },
     });
 
     return () => {
@@ -31,44 +131,268 @@ export default function MMFPlayerUI() {
     };
   }, []);
 
-  const handleFile = useCallback(async (file: File) => {
+  // Open the library of previously loaded files
+  useEffect(() => {
+    let cancelled = false;
+    openLibrary()
+      .then(async (library) => {
+        if (cancelled) {
+          library.close();
+          return;
+        }
+        libraryRef.current = library;
+        setLibrarySongs(await library.list());
+      })
+      .catch((err) => console.error('Error opening library:', err));
+
+    return () => {
+      cancelled = true;
+      libraryRef.current?.close();
+      libraryRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    tracksRef.current = tracks;
+  }, [tracks]);
+
+  const currentLibraryId = tracks.find((t) => t.id === currentTrackId)?.libraryId;
+  useEffect(() => {
+    libraryIdRef.current = currentLibraryId;
+  }, [currentLibraryId]);
+
+  const updateLibrarySong = useCallback((song: LibrarySong | null) => {
+    if (song) setLibrarySongs((songs) => songs && songs.map((s) => (s.id === song.id ? song : s)));
+  }, []);
+
+  // Remember where the loaded library song was left off
+  const saveLastPosition = useCallback((position = playerRef.current?.getCurrentTime() ?? 0) => {
+    const library = libraryRef.current;
+    const id = libraryIdRef.current;
+    if (!library || id === undefined) return;
+
+    library.update(id, { lastPosition: position, lastPlayedAt: Date.now() })
+      .then(updateLibrarySong)
+      .catch((err) => console.error('Error saving playback position:', err));
+  }, [updateLibrarySong]);
+
+  // Save the position every few seconds while playing, and on pause
+  useEffect(() => {
+    if (playerState === 'paused') {
+      saveLastPosition();
+      return;
+    }
+    if (playerState !== 'playing') return;
+
+    const timer = setInterval(() => saveLastPosition(), POSITION_SAVE_INTERVAL);
+    return () => clearInterval(timer);
+  }, [playerState, saveLastPosition]);
+
+  // Keep the player's loop in sync with the loop controls
+  useEffect(() => {
+    playerRef.current?.setLoop(loopEnabled ? { range: loopRange ?? undefined, count: loopCount } : null);
+  }, [loopEnabled, loopRange, loopCount]);
+
+  // Arrow keys seek back and forward while a song is loaded
+  useEffect(() => {
+    if (!mmfData) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+
+      const player = playerRef.current;
+      if (!player) return;
+      e.preventDefault();
+      player.seek(player.getCurrentTime() + (e.key === 'ArrowLeft' ? -SEEK_STEP : SEEK_STEP));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mmfData]);
+
+  // Load a playlist track, optionally paused at a position (ms) or playing
+  const loadTrack = useCallback(async (track: PlaylistTrack, autoplay = false, startAt = 0) => {
+    const previousState = playerRef.current?.getState();
+    if (previousState === 'playing' || previousState === 'paused') saveLastPosition();
+
+    currentTrackRef.current = track.id;
+    setCurrentTrackId(track.id);
     setError('');
+    setValidation(null);
     setProgress(0);
-    
-    // Validate file extension
-    if (!file.name.toLowerCase().endsWith('.mmf') && !file.name.toLowerCase().endsWith('.smaf')) {
-      setError('ファイルの拡張子は.mmfまたは.smafである必要があります');
+    setEncodingOverride('');
+    setLoopRange(null);
+    setChannelMixes({}); // The player resets its mixer on load
+    mmfBufferRef.current = null;
+
+    // Parsed once per track in the background, then served from the cache
+    let song: ParsedSong;
+    try {
+      song = await songCacheRef.current.get(track, (progress) => {
+        if (currentTrackRef.current === track.id) setParseProgress(progress);
+      });
+    } catch {
+      return; // Cancelled by a newer drop
+    } finally {
+      if (currentTrackRef.current === track.id) setParseProgress(null);
+    }
+    setTracks((tracks) => tracks.map((t) => (t.id === track.id && t.valid === undefined ? summarizeTrack(t, song) : t)));
+    if (currentTrackRef.current !== track.id) return;
+
+    setFileName(track.path);
+    setFileSize(track.file.size);
+    setValidation(song.report);
+
+    if (!song.data) {
+      console.error('Error parsing MMF file:', song.error);
+      // MMF parse failures are listed in the diagnostics panel
+      if (!song.report) {
+        setError(song.error ?? 'ファイルの解析に失敗しました');
+      }
+      setMMFData(null);
+      playerRef.current?.stop();
       return;
     }
 
-    try {
-      // Read file
-      const arrayBuffer = await file.arrayBuffer();
-      setFileName(file.name);
-      setFileSize(file.size);
+    setMMFData(song.data);
+    setDetectedEncoding(song.isMIDI ? undefined : song.data.metadata.encoding);
+    if (!song.isMIDI) mmfBufferRef.current = song.buffer;
+
+    // Load into player (stops any existing playback)
+    await playerRef.current?.load(song.data);
+    if (startAt > 0) playerRef.current?.seek(startAt);
+    if (autoplay) await playerRef.current?.play();
+  }, [saveLastPosition]);
+
+  // Add files to the playlist, load the first one and parse the rest for the list.
+  // ZIP archives are unpacked in place of the archive.
+  const handleFiles = useCallback(async (files: PlaylistFile[]) => {
+    // Files still being parsed from an earlier drop give way to the new ones
+    const generation = ++parseGenerationRef.current;
+    songCacheRef.current.cancel();
+
+    const songs: PlaylistFile[] = [];
+    const archiveErrors: string[] = [];
+    for (const file of files) {
+      if (isSongFile(file.path)) {
+        songs.push(file);
+      } else if (isArchiveFile(file.path)) {
+        try {
+          const { files: unpacked, errors } = await unpackArchive(file);
+          songs.push(...unpacked);
+          archiveErrors.push(...errors);
+        } catch (err) {
+          console.error('Error reading ZIP file:', err);
+          archiveErrors.push(`${file.path}: ${err instanceof Error ? err.message : 'ZIPファイルを読み込めませんでした'}`);
+        }
+      }
+    }
 
-      // Parse MMF data
-      const data = parseMMF(arrayBuffer);
-      setMMFData(data);
+    const added = songs.map(createTrack);
+    if (added.length === 0) {
+      setError(archiveErrors.length > 0
+        ? archiveErrors.join('\n')
+        : 'ファイルの拡張子は.mmf、.smaf、.midまたは.zipである必要があります');
+      return;
+    }
+
+    setTracks((tracks) => [...tracks, ...added]);
+    setShuffledIds((ids) => ids && [...ids, ...shuffleTracks(added.map(({ id }) => id))]);
+    loadTrack(added[0]).then(() => {
+      // Shown after loading, which clears the previous error
+      if (archiveErrors.length > 0) {
+        setError(`展開できなかったファイルがあります:\n${archiveErrors.join('\n')}`);
+      }
+    });
 
-      // Load into player
-      await playerRef.current?.load(data);
+    const unparsed = tracksRef.current.filter((t) => t.valid === undefined);
+    for (const track of [...added, ...unparsed]) {
+      let song: ParsedSong;
+      try {
+        song = await songCacheRef.current.get(track);
+      } catch {
+        if (generation !== parseGenerationRef.current) return;
+        continue; // Removed from the list while parsing
+      }
+      if (generation !== parseGenerationRef.current) return;
 
-      // Stop any existing playback
-      if (playerState === 'playing') {
-        playerRef.current?.stop();
+      // Keep MMF files in the library (MIDI files are only read for conversion)
+      let libraryId: number | undefined;
+      if (song.data && !song.isMIDI && libraryRef.current) {
+        try {
+          libraryId = (await libraryRef.current.add(track.file.name, song.buffer, song.data)).id;
+        } catch (err) {
+          console.error('Error adding to library:', err);
+        }
       }
+      setTracks((tracks) => tracks.map((t) => (t.id === track.id ? { ...summarizeTrack(t, song), libraryId } : t)));
+    }
+
+    const library = await libraryRef.current?.list();
+    if (library) setLibrarySongs(library);
+  }, [loadTrack]);
+
+  // Open a library song in the playlist, paused where it was left off
+  const handleOpenLibrarySong = async (song: LibrarySong) => {
+    const autoplay = playerState === 'playing';
+    const existing = tracks.find((t) => t.libraryId === song.id);
+    if (existing) {
+      loadTrack(existing, autoplay, song.lastPosition);
+      return;
+    }
+
+    const library = libraryRef.current;
+    if (!library) return;
+    try {
+      const buffer = await library.getFile(song.id);
+      const track = { ...createTrack({ file: new File([buffer], song.name), path: song.name }), libraryId: song.id };
+      setTracks((tracks) => [...tracks, track]);
+      setShuffledIds((ids) => ids && [...ids, track.id]);
+      await loadTrack(track, autoplay, song.lastPosition);
     } catch (err) {
-      console.error('Error parsing MMF file:', err);
-      setError(err instanceof Error ? err.message : 'ファイルの解析に失敗しました');
-      setMMFData(null);
+      console.error('Error opening library song:', err);
+      setError(err instanceof Error ? err.message : 'ライブラリの曲を開けませんでした');
+    }
+  };
+
+  const handleLibraryFavoriteChange = (song: LibrarySong, favorite: boolean) => {
+    libraryRef.current?.update(song.id, { favorite })
+      .then(updateLibrarySong)
+      .catch((err) => console.error('Error updating library:', err));
+  };
+
+  const handleLibraryExport = async (song: LibrarySong) => {
+    try {
+      const buffer = await libraryRef.current?.getFile(song.id);
+      if (buffer) downloadFile(buffer, song.name, 'application/vnd.smaf');
+    } catch (err) {
+      console.error('Error exporting library song:', err);
+      setError(err instanceof Error ? err.message : 'ファイルの保存に失敗しました');
+    }
+  };
+
+  const handleLibraryDelete = async (song: LibrarySong) => {
+    const library = libraryRef.current;
+    if (!library || !window.confirm(`「${song.metadata.title || song.name}」をライブラリから削除しますか？`)) return;
+
+    try {
+      await library.delete(song.id);
+      setLibrarySongs((songs) => songs && songs.filter((s) => s.id !== song.id));
+      // Tracks already in the playlist stay, without a saved position
+      setTracks((tracks) => tracks.map((t) => (t.libraryId === song.id ? { ...t, libraryId: undefined } : t)));
+    } catch (err) {
+      console.error('Error deleting library song:', err);
     }
-  }, [playerState]);
+  };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFile(file);
+    const files = [...(e.target.files ?? [])];
+    e.target.value = ''; // Allow selecting the same files again
+    if (files.length > 0) {
+      handleFiles(files.map((file) => ({ file, path: file.name })));
     }
   };
 
@@ -82,16 +406,66 @@ export default function MMFPlayerUI() {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      handleFile(file);
+    const files = await collectDroppedFiles(e.dataTransfer);
+    if (files.length > 0) {
+      handleFiles(files);
     }
   };
 
+  // Playlist navigation follows the shuffled order while shuffling
+  const playOrder = useMemo(() => shuffledIds ?? tracks.map(({ id }) => id), [shuffledIds, tracks]);
+
+  const playTrack = (id: number | null, autoplay: boolean) => {
+    const track = tracks.find((t) => t.id === id);
+    if (track) loadTrack(track, autoplay);
+  };
+
+  const handlePreviousTrack = () => {
+    playTrack(adjacentTrack(playOrder, currentTrackId, -1, repeat === 'all'), playerState === 'playing');
+  };
+
+  const handleNextTrack = () => {
+    playTrack(adjacentTrack(playOrder, currentTrackId, 1, repeat === 'all'), playerState === 'playing');
+  };
+
+  // At the end of a song, play it again or go on to the next track
+  useEffect(() => {
+    handleEndRef.current = () => {
+      saveLastPosition(0);
+      if (repeat === 'one') {
+        playerRef.current?.play();
+        return;
+      }
+      const next = tracks.find((t) => t.id === adjacentTrack(playOrder, currentTrackId, 1, repeat === 'all'));
+      if (next) loadTrack(next, true);
+    };
+  }, [repeat, tracks, playOrder, currentTrackId, loadTrack, saveLastPosition]);
+
+  const handleShuffleChange = (shuffle: boolean) => {
+    setShuffledIds(shuffle ? shuffleTracks(tracks.map(({ id }) => id), currentTrackId ?? undefined) : null);
+  };
+
+  const handleMoveTrack = (id: number, offset: number) => {
+    setTracks((tracks) => {
+      const index = tracks.findIndex((t) => t.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= tracks.length) return tracks;
+      const moved = [...tracks];
+      [moved[index], moved[target]] = [moved[target], moved[index]];
+      return moved;
+    });
+  };
+
+  const handleRemoveTrack = (id: number) => {
+    songCacheRef.current.delete(id);
+    setTracks((tracks) => tracks.filter((t) => t.id !== id));
+    setShuffledIds((ids) => ids && ids.filter((other) => other !== id));
+  };
+
   const handlePlayPause = async () => {
     if (!playerRef.current || !mmfData) return;
 
@@ -106,10 +480,126 @@ export default function MMFPlayerUI() {
 
   const handleStop = () => {
     if (!playerRef.current) return;
+    saveLastPosition(0);
     playerRef.current.stop();
     setProgress(0);
   };
 
+  // Channels with notes, for the mixer
+  const mixerChannels = useMemo((): MixerChannel[] => {
+    const counts = new Map<number, number>();
+    for (const note of mmfData?.notes ?? []) {
+      counts.set(note.channel, (counts.get(note.channel) ?? 0) + 1);
+    }
+    return [...counts]
+      .sort(([a], [b]) => a - b)
+      .map(([channel, noteCount]) => ({ channel, noteCount }));
+  }, [mmfData]);
+
+  // Channels silenced by mute or solo, dimmed on the piano roll
+  const mutedChannels = useMemo(() => {
+    const mixes = Object.entries(channelMixes);
+    const soloActive = mixes.some(([, mix]) => mix.solo);
+    return new Set(mixes.filter(([, mix]) => isChannelMuted(mix, soloActive)).map(([channel]) => Number(channel)));
+  }, [channelMixes]);
+
+  const handleChannelMixChange = (channel: number, changes: Partial<ChannelMix>) => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    if (changes.mute !== undefined) player.setChannelMute(channel, changes.mute);
+    if (changes.solo !== undefined) player.setChannelSolo(channel, changes.solo);
+    if (changes.volume !== undefined) player.setChannelVolume(channel, changes.volume);
+    if (changes.pan !== undefined) player.setChannelPan(channel, changes.pan);
+    setChannelMixes((mixes) => ({ ...mixes, [channel]: player.getChannelMix(channel) }));
+  };
+
+  const getChannelLevel = useCallback((channel: number) => playerRef.current?.getChannelLevel(channel) ?? 0, []);
+
+  const handleSeek = (time: number) => {
+    playerRef.current?.seek(time);
+  };
+
+  // Click or drag on the progress bar to seek
+  const seekToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!mmfData) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    handleSeek(ratio * mmfData.duration);
+  };
+
+  const handleProgressPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    seekToPointer(e);
+  };
+
+  const handleProgressPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) seekToPointer(e);
+  };
+
+  const handleSynthModeChange = (mode: SynthMode) => {
+    setSynthMode(mode);
+    playerRef.current?.setSynthMode(mode);
+  };
+
+  const handlePlaybackRateChange = (rate: number) => {
+    setPlaybackRate(rate);
+    playerRef.current?.setPlaybackRate(rate);
+  };
+
+  const handleTransposeChange = (semitones: number) => {
+    setTranspose(semitones);
+    playerRef.current?.setTranspose(semitones);
+  };
+
+  const handleEncodingChange = (value: TextEncoding | '') => {
+    const buffer = mmfBufferRef.current;
+    if (!buffer) return;
+
+    setEncodingOverride(value);
+    const metadata = parseMMFMetadata(buffer, { encoding: value || undefined });
+    setMMFData((data) => data && { ...data, metadata });
+  };
+
+  const handleExportWAV = async () => {
+    if (!mmfData) return;
+
+    setIsExporting(true);
+    try {
+      const wav = await renderMMFToWAV(mmfData, {
+        sampleRate: wavSampleRate,
+        channels: wavChannels,
+        synthMode,
+      });
+      downloadFile(wav, `${exportBaseName(mmfData, fileName)}.wav`, 'audio/wav');
+    } catch (err) {
+      console.error('Error rendering WAV:', err);
+      setError(err instanceof Error ? err.message : 'WAVの書き出しに失敗しました');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportMIDI = () => {
+    if (!mmfData) return;
+    downloadFile(writeMIDI(mmfData), `${exportBaseName(mmfData, fileName)}.mid`, 'audio/midi');
+  };
+
+  const handleExportMMF = () => {
+    if (!mmfData) return;
+
+    try {
+      downloadFile(writeMMF(mmfData), `${exportBaseName(mmfData, fileName)}.mmf`, 'application/vnd.smaf');
+    } catch (err) {
+      console.error('Error writing MMF:', err);
+      setError(err instanceof Error ? err.message : 'MMFの書き出しに失敗しました');
+    }
+  };
+
+  // Range the loop plays: the A–B range, else the whole song
+  const displayedLoop: MMFLoop = loopRange ?? { start: 0, end: mmfData?.duration ?? 0 };
+
   const formatTime = (ms: number): string => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -125,53 +615,99 @@ export default function MMFPlayerUI() {
 
   return (
     <div className="w-full max-w-3xl mx-auto">
-      {/* File upload area */}
-      <div
-        className={`relative border-2 border-dashed rounded-lg p-12 text-center transition-all ${
-          isDragging
-            ? 'border-blue-500 bg-blue-50'
-            : 'border-gray-300 hover:border-gray-400 bg-white'
-        }`}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept=".mmf,.smaf"
-          onChange={handleFileSelect}
-          className="hidden"
-        />
+      <div className={`grid gap-6 ${librarySongs ? 'md:grid-cols-2' : ''}`}>
+        {/* File upload area */}
+        <div
+          className={`relative flex flex-col justify-center border-2 border-dashed rounded-lg p-12 text-center transition-all ${
+            isDragging
+              ? 'border-blue-500 bg-blue-50'
+              : 'border-gray-300 hover:border-gray-400 bg-white'
+          }`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".mmf,.smaf,.mid,.midi,.zip"
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
+          />
         
-        <div className="space-y-4">
-          <div className="text-6xl">🎵</div>
-          <div>
-            <p className="text-lg font-medium text-gray-700 mb-2">
-              MMFファイルをドロップするか、クリックして選択
-            </p>
-            <p className="text-sm text-gray-500">
-              対応形式: .mmf, .smaf
-            </p>
-          </div>
+          <div className="space-y-4">
+            <div className="text-6xl">🎵</div>
+            <div>
+              <p className="text-lg font-medium text-gray-700 mb-2">
+                MMFファイルやフォルダをドロップするか、クリックして選択
+              </p>
+              <p className="text-sm text-gray-500">
+                対応形式: .mmf, .smaf, .zip（.mid は読み込んで MMF に変換できます）
+              </p>
+            </div>
           
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-md hover:shadow-lg"
-          >
-            ファイルを選択
-          </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-md hover:shadow-lg"
+            >
+              ファイルを選択
+            </button>
+
+            {parseProgress !== null && (
+              <div className="mx-auto w-48 text-sm text-gray-500">
+                <p className="mb-1">解析中… {Math.round(parseProgress * 100)}%</p>
+                <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-600 transition-all" style={{ width: `${parseProgress * 100}%` }} />
+                </div>
+              </div>
+            )}
+          </div>
         </div>
+
+        {/* Library of previously loaded files */}
+        {librarySongs && (
+          <LibraryPanel
+            songs={librarySongs}
+            currentId={currentLibraryId}
+            onOpen={handleOpenLibrarySong}
+            onFavoriteChange={handleLibraryFavoriteChange}
+            onExport={handleLibraryExport}
+            onDelete={handleLibraryDelete}
+          />
+        )}
       </div>
 
+      {/* Playlist */}
+      {tracks.length > 1 && (
+        <PlaylistPanel
+          tracks={tracks}
+          currentId={currentTrackId}
+          shuffle={shuffledIds !== null}
+          repeat={repeat}
+          hasPrevious={adjacentTrack(playOrder, currentTrackId, -1, repeat === 'all') !== null}
+          hasNext={adjacentTrack(playOrder, currentTrackId, 1, repeat === 'all') !== null}
+          onSelect={(id) => playTrack(id, playerState === 'playing')}
+          onMove={handleMoveTrack}
+          onRemove={handleRemoveTrack}
+          onPrevious={handlePreviousTrack}
+          onNext={handleNextTrack}
+          onShuffleChange={handleShuffleChange}
+          onRepeatChange={setRepeat}
+        />
+      )}
+
       {/* Error display */}
       {error && (
         <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg">
           <p className="text-red-800 font-medium">エラー</p>
-          <p className="text-red-600 text-sm mt-1">{error}</p>
+          <p className="text-red-600 text-sm mt-1 whitespace-pre-line">{error}</p>
         </div>
       )}
 
+      {/* Validation report */}
+      {validation && <ValidationPanel key={fileName} report={validation} />}
+
       {/* File info and player controls */}
       {mmfData && (
         <div className="mt-6 bg-white rounded-lg shadow-lg overflow-hidden">
@@ -187,22 +723,25 @@ export default function MMFPlayerUI() {
                 <span className="font-medium">サイズ:</span>
                 <span>{formatFileSize(fileSize)}</span>
               </div>
-              {mmfData.metadata.title && (
-                <div className="flex items-center space-x-2">
-                  <span className="font-medium">曲名:</span>
-                  <span>{mmfData.metadata.title}</span>
-                </div>
-              )}
-              {mmfData.metadata.composer && (
-                <div className="flex items-center space-x-2">
-                  <span className="font-medium">作曲者:</span>
-                  <span>{mmfData.metadata.composer}</span>
+              {METADATA_LABELS.map(([field, label]) => mmfData.metadata[field] && (
+                <div key={field} className="flex items-center space-x-2">
+                  <span className="font-medium">{label}:</span>
+                  <span className="break-all">{mmfData.metadata[field]}</span>
                 </div>
-              )}
-              {mmfData.metadata.arranger && (
+              ))}
+              {detectedEncoding && (
                 <div className="flex items-center space-x-2">
-                  <span className="font-medium">編曲者:</span>
-                  <span>{mmfData.metadata.arranger}</span>
+                  <span className="font-medium">文字コード:</span>
+                  <select
+                    value={encodingOverride}
+                    onChange={(e) => handleEncodingChange(e.target.value as TextEncoding | '')}
+                    className="px-2 py-0.5 rounded bg-white/90 text-gray-800 text-sm"
+                  >
+                    <option value="">自動（{ENCODING_NAMES[detectedEncoding]}）</option>
+                    {TEXT_ENCODINGS.map((encoding) => (
+                      <option key={encoding} value={encoding}>{ENCODING_NAMES[encoding]}</option>
+                    ))}
+                  </select>
                 </div>
               )}
               <div className="flex items-center space-x-2">
@@ -211,12 +750,37 @@ export default function MMFPlayerUI() {
               </div>
               <div className="flex items-center space-x-2">
                 <span className="font-medium">テンポ:</span>
-                <span>{mmfData.tempo} BPM</span>
+                <span>
+                  {mmfData.tempo} BPM
+                  {mmfData.tempoMap.length > 1 && (
+                    <span className="ml-2 opacity-80">
+                      （途中でテンポ変化あり: {mmfData.tempoMap.length - 1}回）
+                    </span>
+                  )}
+                </span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">拍子:</span>
+                <span>{mmfData.timeSignature.numerator}/{mmfData.timeSignature.denominator}</span>
               </div>
               <div className="flex items-center space-x-2">
                 <span className="font-medium">音符数:</span>
                 <span>{mmfData.notes.length}</span>
               </div>
+              {Object.keys(mmfData.voices).length > 0 && (
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">内蔵音色:</span>
+                  <span>{Object.keys(mmfData.voices).length} 音色</span>
+                </div>
+              )}
+              {mmfData.audioEvents.length > 0 && (
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">オーディオ:</span>
+                  <span>
+                    {Object.keys(mmfData.waves).length} 波形 / {mmfData.audioEvents.length} イベント
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -228,11 +792,17 @@ export default function MMFPlayerUI() {
                 <span>{formatTime(progress * mmfData.duration)}</span>
                 <span>{formatTime(mmfData.duration)}</span>
               </div>
-              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-200"
-                  style={{ width: `${progress * 100}%` }}
-                />
+              <div
+                className="py-1.5 cursor-pointer touch-none"
+                onPointerDown={handleProgressPointerDown}
+                onPointerMove={handleProgressPointerMove}
+              >
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-purple-500 to-pink-500"
+                    style={{ width: `${progress * 100}%` }}
+                  />
+                </div>
               </div>
             </div>
 
@@ -262,6 +832,139 @@ export default function MMFPlayerUI() {
               </button>
             </div>
 
+            {/* Loop */}
+            <div className="mt-4 flex flex-wrap justify-center items-center gap-2 text-sm text-gray-700">
+              <span className="font-medium">ループ:</span>
+              <button
+                onClick={() => setLoopEnabled(!loopEnabled)}
+                className={`px-3 py-1 rounded-full border transition-colors ${
+                  loopEnabled
+                    ? 'bg-purple-600 border-purple-600 text-white'
+                    : 'bg-white border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                🔁 {loopEnabled ? 'オン' : 'オフ'}
+              </button>
+              <select
+                value={loopCount}
+                onChange={(e) => setLoopCount(Number(e.target.value))}
+                disabled={!loopEnabled}
+                className="px-2 py-1 rounded border border-gray-300 bg-white disabled:opacity-50"
+              >
+                {LOOP_COUNTS.map((count) => (
+                  <option key={count} value={count}>{count === Infinity ? '無限' : `${count}回`}</option>
+                ))}
+              </select>
+              {loopEnabled && (
+                <span className="text-gray-500">
+                  {loopRange ? 'A–B' : '曲全体'} {formatTime(displayedLoop.start)} 〜 {formatTime(displayedLoop.end)}
+                </span>
+              )}
+              {loopEnabled && loopRange && (
+                <button
+                  onClick={() => setLoopRange(null)}
+                  className="px-3 py-1 rounded-full border bg-white border-gray-300 hover:border-gray-400"
+                >
+                  リセット
+                </button>
+              )}
+            </div>
+
+            {/* Tempo and pitch */}
+            <div className="mt-4 flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2" title="ダブルクリックで元に戻す">
+                <span className="font-medium">速度:</span>
+                <input
+                  type="range"
+                  min={0.25}
+                  max={2}
+                  step={0.05}
+                  value={playbackRate}
+                  onChange={(e) => handlePlaybackRateChange(Number(e.target.value))}
+                  onDoubleClick={() => handlePlaybackRateChange(1)}
+                  className="w-32"
+                />
+                <span className="w-12 font-mono">{playbackRate.toFixed(2)}×</span>
+              </label>
+              <label className="flex items-center gap-2" title="ダブルクリックで元に戻す">
+                <span className="font-medium">移調:</span>
+                <input
+                  type="range"
+                  min={-12}
+                  max={12}
+                  step={1}
+                  value={transpose}
+                  onChange={(e) => handleTransposeChange(Number(e.target.value))}
+                  onDoubleClick={() => handleTransposeChange(0)}
+                  className="w-32"
+                />
+                <span className="w-8 font-mono">{transpose > 0 ? `+${transpose}` : transpose}</span>
+              </label>
+            </div>
+
+            {/* Synth mode selector */}
+            <div className="mt-4 flex justify-center items-center space-x-2 text-sm text-gray-700">
+              <span className="font-medium">音源:</span>
+              {(['fm', 'simple'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => handleSynthModeChange(mode)}
+                  className={`px-3 py-1 rounded-full border transition-colors ${
+                    synthMode === mode
+                      ? 'bg-purple-600 border-purple-600 text-white'
+                      : 'bg-white border-gray-300 hover:border-gray-400'
+                  }`}
+                >
+                  {mode === 'fm' ? 'FM音源' : 'シンプル'}
+                </button>
+              ))}
+            </div>
+
+            {/* Export */}
+            <div className="mt-4 flex flex-wrap justify-center items-center gap-2 text-sm text-gray-700">
+              <span className="font-medium">書き出し:</span>
+              <select
+                value={wavSampleRate}
+                onChange={(e) => setWavSampleRate(Number(e.target.value))}
+                className="px-2 py-1 rounded border border-gray-300 bg-white"
+              >
+                {WAV_SAMPLE_RATES.map((rate) => (
+                  <option key={rate} value={rate}>{rate} Hz</option>
+                ))}
+              </select>
+              <select
+                value={wavChannels}
+                onChange={(e) => setWavChannels(Number(e.target.value))}
+                className="px-2 py-1 rounded border border-gray-300 bg-white"
+              >
+                <option value={2}>ステレオ</option>
+                <option value={1}>モノラル</option>
+              </select>
+              <button
+                onClick={handleExportWAV}
+                disabled={isExporting}
+                className={`px-3 py-1 rounded-full border transition-colors ${
+                  isExporting
+                    ? 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                    : 'bg-white border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                {isExporting ? '書き出し中…' : 'WAV で保存'}
+              </button>
+              <button
+                onClick={handleExportMIDI}
+                className="px-3 py-1 rounded-full border bg-white border-gray-300 hover:border-gray-400 transition-colors"
+              >
+                MIDI で保存
+              </button>
+              <button
+                onClick={handleExportMMF}
+                className="px-3 py-1 rounded-full border bg-white border-gray-300 hover:border-gray-400 transition-colors"
+              >
+                MMF で保存
+              </button>
+            </div>
+
             {/* Status indicator */}
             <div className="mt-4 text-center">
               <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
@@ -283,8 +986,21 @@ export default function MMFPlayerUI() {
           <div className="px-6 pb-6">
             <PianoRoll
               notes={mmfData.notes}
+              channelEvents={mmfData.channelEvents}
               duration={mmfData.duration}
               progress={progress}
+              onSeek={handleSeek}
+              loop={loopEnabled ? displayedLoop : null}
+              onLoopChange={setLoopRange}
+              mutedChannels={mutedChannels}
+              transpose={transpose}
+            />
+            <MixerPanel
+              channels={mixerChannels}
+              mixes={channelMixes}
+              onChange={handleChannelMixChange}
+              getLevel={getChannelLevel}
+              metering={playerState === 'playing'}
             />
           </div>
         </div>
@@ -297,7 +1013,14 @@ export default function MMFPlayerUI() {
           <li>MMF形式またはSMAF形式の着メロファイルを選択またはドラッグ&ドロップ</li>
           <li>ファイル情報が表示されたら、再生ボタンをクリック</li>
           <li>一時停止ボタンで再生を一時停止、停止ボタンで完全に停止</li>
-          <li>進捗バーで現在の再生位置を確認</li>
+          <li>進捗バーやピアノロールをクリック・ドラッグすると再生位置を移動できます（← / → キーで5秒戻る・進む）</li>
+          <li>「ループ」をオンにするとくり返し再生します（ピアノロールの A / B マーカーをドラッグして区間を変更）</li>
+          <li>「速度」で音程を変えずにテンポを 0.25〜2 倍に、「移調」で半音単位（±12）に音程を変更できます（ダブルクリックで元に戻す）</li>
+          <li>複数のファイルやフォルダをまとめてドロップするとプレイリストに追加され、曲が終わると次の曲を再生します（並べ替え・シャッフル・リピート対応）</li>
+          <li>ZIPファイル（フォルダ入り・日本語ファイル名も可）をドロップすると、中の着メロファイルをまとめてプレイリストに追加します</li>
+          <li>読み込んだMMFファイルは「ライブラリ」に保存され、再読み込み後も検索・お気に入り・前回の続きからの再生・保存・削除ができます</li>
+          <li>「ミキサー」を開くと、チャンネルごとにミュート・ソロ・音量・パンを調整できます</li>
+          <li>MIDIファイル（.mid）を読み込んで「MMF で保存」を押すと着メロファイルに変換できます</li>
         </ol>
       </div>
     </div>
@@ -1,12 +1,19 @@
 'use client';
 
 import { useRef, useEffect, useMemo } from 'react';
-import { MMFNote } from '@/lib/mmf-parser';
+import { MMFChannelEvent, MMFLoop, MMFNote } from '@/lib/mmf-parser';
+import { findPercussionNotes } from '@/lib/instrument-bank';
 
 interface PianoRollProps {
   notes: MMFNote[];
+  channelEvents: MMFChannelEvent[];  // Bank selects mark drum channels, which transpose leaves alone
   duration: number;
   progress: number;
+  onSeek?: (time: number) => void;  // Called with a time in milliseconds when the roll is clicked or dragged
+  loop?: MMFLoop | null;             // Loop range, drawn as A/B markers
+  onLoopChange?: (loop: MMFLoop) => void;  // Called while an A/B marker is dragged
+  mutedChannels?: Set<number>;       // Channels whose notes are drawn dimmed
+  transpose?: number;                // Semitones the notes (drums excepted) are drawn shifted by
 }
 
 const PIANO_KEY_WIDTH = 36;
@@ -21,11 +28,19 @@ const NOTE_MARGIN_X = 0.5;
 const NOTE_MARGIN_Y = 1.5;
 const NOTE_INNER_HEIGHT = NOTE_HEIGHT - 3;
 const MIN_NOTE_WIDTH = 2;
+// Loop markers
+const MARKER_GRAB_DISTANCE = 6; // Pointer distance (px) that picks up a marker
+const MIN_LOOP_LENGTH = 100;    // Closest the markers can be dragged together (ms)
 
-function computeNoteRange(notes: MMFNote[]): { noteMin: number; noteMax: number } {
+function computeNoteRange(notes: MMFNote[], pitchOf: (note: MMFNote) => number): { noteMin: number; noteMax: number } {
   if (notes.length === 0) return { noteMin: 48, noteMax: 72 };
-  const min = Math.min(...notes.map((n) => n.note));
-  const max = Math.max(...notes.map((n) => n.note));
+  // A loop rather than Math.min(...notes): spreading long songs overflows the stack
+  let min = Infinity;
+  let max = -Infinity;
+  for (const note of notes) {
+    min = Math.min(min, pitchOf(note));
+    max = Math.max(max, pitchOf(note));
+  }
   const padding = 2;
   const clampedMin = Math.max(0, min - padding);
   const clampedMax = Math.min(127, max + padding);
@@ -41,12 +56,18 @@ function computeNoteRange(notes: MMFNote[]): { noteMin: number; noteMax: number
   return { noteMin: clampedMin, noteMax: clampedMax };
 }
 
-export default function PianoRoll({ notes, duration, progress }: PianoRollProps) {
+export default function PianoRoll({ notes, channelEvents, duration, progress, onSeek, loop, onLoopChange, mutedChannels, transpose = 0 }: PianoRollProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const offscreenRef = useRef<HTMLCanvasElement | null>(null);
+  const draggingMarkerRef = useRef<'start' | 'end' | null>(null);
 
-  const { noteMin, noteMax } = useMemo(() => computeNoteRange(notes), [notes]);
+  // Drawn pitch of a note: shifted by transpose, except on drums as the player does
+  const pitchOf = useMemo(() => {
+    const drums = findPercussionNotes(notes, channelEvents);
+    return (note: MMFNote) => drums.has(note) ? note.note : note.note + transpose;
+  }, [notes, channelEvents, transpose]);
+  const { noteMin, noteMax } = useMemo(() => computeNoteRange(notes, pitchOf), [notes, pitchOf]);
   const noteRange = noteMax - noteMin + 1;
   const canvasHeight = noteRange * NOTE_HEIGHT;
   const timeWidth = CANVAS_WIDTH - PIANO_KEY_WIDTH;
@@ -113,13 +134,14 @@ export default function PianoRoll({ notes, duration, progress }: PianoRollProps)
 
     // --- Note bars ---
     for (const note of notes) {
-      if (note.note < noteMin || note.note > noteMax) continue;
+      const pitch = pitchOf(note);
+      if (pitch < noteMin || pitch > noteMax) continue;
       const x = PIANO_KEY_WIDTH + note.time / msPerPixel;
-      const y = (noteMax - note.note) * NOTE_HEIGHT;
+      const y = (noteMax - pitch) * NOTE_HEIGHT;
       const w = Math.max(MIN_NOTE_WIDTH, note.duration / msPerPixel);
-      // Color by pitch class (C=red … B=violet)
-      const hue = (note.note % 12) * 30;
-      ctx.fillStyle = `hsl(${hue}, 75%, 60%)`;
+      // Color by pitch class (C=red … B=violet), dimmed on muted channels
+      const hue = (((pitch % 12) + 12) % 12) * 30;
+      ctx.fillStyle = mutedChannels?.has(note.channel) ? `hsl(${hue}, 15%, 30%)` : `hsl(${hue}, 75%, 60%)`;
       ctx.fillRect(
         x + NOTE_MARGIN_X,
         y + NOTE_MARGIN_Y,
@@ -152,7 +174,7 @@ export default function PianoRoll({ notes, duration, progress }: PianoRollProps)
     }
 
     offscreenRef.current = offscreen;
-  }, [notes, duration, noteMin, noteMax, noteRange, canvasHeight, timeWidth, msPerPixel]);
+  }, [notes, duration, noteMin, noteMax, noteRange, canvasHeight, timeWidth, msPerPixel, mutedChannels, pitchOf]);
 
   // Composite offscreen canvas + playback cursor
   useEffect(() => {
@@ -165,6 +187,28 @@ export default function PianoRoll({ notes, duration, progress }: PianoRollProps)
     // Redraw static content
     ctx.drawImage(offscreenRef.current, 0, 0);
 
+    // Draw loop range and A/B markers
+    if (loop) {
+      const startX = PIANO_KEY_WIDTH + loop.start / msPerPixel;
+      const endX = PIANO_KEY_WIDTH + loop.end / msPerPixel;
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.08)';
+      ctx.fillRect(startX, 0, endX - startX, canvasHeight);
+
+      ctx.strokeStyle = '#facc15';
+      ctx.fillStyle = '#facc15';
+      ctx.lineWidth = 1.5;
+      ctx.font = 'bold 10px sans-serif';
+      ctx.textBaseline = 'top';
+      for (const [x, label] of [[startX, 'A'], [endX, 'B']] as const) {
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, canvasHeight);
+        ctx.stroke();
+        ctx.textAlign = label === 'A' ? 'left' : 'right';
+        ctx.fillText(label, label === 'A' ? x + 3 : x - 3, 2);
+      }
+    }
+
     // Draw playback cursor
     const cursorX = PIANO_KEY_WIDTH + progress * timeWidth;
     ctx.strokeStyle = '#f43f5e';
@@ -173,7 +217,7 @@ export default function PianoRoll({ notes, duration, progress }: PianoRollProps)
     ctx.moveTo(cursorX, 0);
     ctx.lineTo(cursorX, canvasHeight);
     ctx.stroke();
-  }, [notes, progress, timeWidth, canvasHeight]);
+  }, [notes, progress, timeWidth, canvasHeight, loop, msPerPixel, mutedChannels, pitchOf]);
 
   // Auto-scroll to keep the cursor in view during playback
   useEffect(() => {
@@ -190,6 +234,54 @@ export default function PianoRoll({ notes, duration, progress }: PianoRollProps)
     }
   }, [progress, timeWidth]);
 
+  // Map a pointer position on the canvas to a song time
+  const pointerTime = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width) - PIANO_KEY_WIDTH;
+    return Math.max(0, Math.min(duration, x * msPerPixel));
+  };
+
+  // Loop marker under the pointer, if any
+  const markerAt = (time: number): 'start' | 'end' | null => {
+    if (!loop || !onLoopChange) return null;
+    const grab = MARKER_GRAB_DISTANCE * msPerPixel;
+    if (Math.abs(time - loop.start) <= grab) return 'start';
+    if (Math.abs(time - loop.end) <= grab) return 'end';
+    return null;
+  };
+
+  const dragTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const time = pointerTime(e);
+    const marker = draggingMarkerRef.current;
+    if (marker && loop && onLoopChange) {
+      onLoopChange(marker === 'start'
+        ? { start: Math.max(0, Math.min(time, loop.end - MIN_LOOP_LENGTH)), end: loop.end }
+        : { start: loop.start, end: Math.min(duration, Math.max(time, loop.start + MIN_LOOP_LENGTH)) });
+    } else {
+      onSeek?.(time);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    draggingMarkerRef.current = markerAt(pointerTime(e));
+    if (!draggingMarkerRef.current && !onSeek) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      dragTo(e);
+    } else {
+      e.currentTarget.style.cursor = markerAt(pointerTime(e)) ? 'ew-resize' : '';
+    }
+  };
+
+  const handlePointerUp = () => {
+    draggingMarkerRef.current = null;
+  };
+
   if (notes.length === 0) return null;
 
   return (
@@ -198,7 +290,15 @@ export default function PianoRoll({ notes, duration, progress }: PianoRollProps)
         🎹 ピアノロール
       </div>
       <div ref={containerRef} className="overflow-x-auto">
-        <canvas ref={canvasRef} width={CANVAS_WIDTH} height={canvasHeight} className="block" />
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={canvasHeight}
+          className={`block ${onSeek || onLoopChange ? 'cursor-pointer touch-none' : ''}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,129 @@
+'use client';
+
+import { PlaylistTrack, RepeatMode } from '@/lib/playlist';
+
+interface PlaylistPanelProps {
+  tracks: PlaylistTrack[];
+  currentId: number | null;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onSelect: (id: number) => void;
+  onMove: (id: number, offset: number) => void;  // Move a track up (-1) or down (1)
+  onRemove: (id: number) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onShuffleChange: (shuffle: boolean) => void;
+  onRepeatChange: (repeat: RepeatMode) => void;
+}
+
+const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+const REPEAT_LABELS: Record<RepeatMode, string> = {
+  off: 'リピートなし',
+  all: '全曲リピート',
+  one: '1曲リピート',
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export default function PlaylistPanel({
+  tracks, currentId, shuffle, repeat, hasPrevious, hasNext,
+  onSelect, onMove, onRemove, onPrevious, onNext, onShuffleChange, onRepeatChange
+}: PlaylistPanelProps) {
+  const toggleClass = (active: boolean) => `px-3 py-1 rounded-full border transition-colors ${
+    active ? 'bg-purple-600 border-purple-600 text-white' : 'bg-white border-gray-300 hover:border-gray-400'
+  }`;
+  const nextRepeat = REPEAT_MODES[(REPEAT_MODES.indexOf(repeat) + 1) % REPEAT_MODES.length];
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-lg overflow-hidden">
+      <div className="px-6 py-4 flex flex-wrap items-center gap-2 text-sm text-gray-700 border-b border-gray-100">
+        <span className="text-lg font-bold text-gray-800 mr-auto">プレイリスト（{tracks.length}曲）</span>
+        <button
+          onClick={onPrevious}
+          disabled={!hasPrevious}
+          className="px-3 py-1 rounded-full border bg-white border-gray-300 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="前の曲"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={onNext}
+          disabled={!hasNext}
+          className="px-3 py-1 rounded-full border bg-white border-gray-300 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="次の曲"
+        >
+          ⏭
+        </button>
+        <button onClick={() => onShuffleChange(!shuffle)} className={toggleClass(shuffle)}>
+          🔀 シャッフル
+        </button>
+        <button onClick={() => onRepeatChange(nextRepeat)} className={toggleClass(repeat !== 'off')}>
+          {repeat === 'one' ? '🔂' : '🔁'} {REPEAT_LABELS[repeat]}
+        </button>
+      </div>
+
+      <ol className="max-h-80 overflow-y-auto divide-y divide-gray-100 text-sm">
+        {tracks.map((track, index) => (
+          <li
+            key={track.id}
+            className={`flex items-center gap-3 px-6 py-2 ${track.id === currentId ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+          >
+            <span className="w-6 text-right font-mono text-xs text-gray-400">
+              {track.id === currentId ? '▶' : index + 1}
+            </span>
+            <button
+              onClick={() => onSelect(track.id)}
+              className="flex-1 min-w-0 text-left"
+              title={track.path}
+            >
+              <span className={`block truncate ${track.id === currentId ? 'font-medium text-purple-700' : 'text-gray-800'}`}>
+                {track.title || track.path}
+              </span>
+              {track.title && <span className="block truncate text-xs text-gray-400">{track.path}</span>}
+            </button>
+            <span className="w-12 text-right font-mono text-xs text-gray-500">
+              {track.duration !== undefined ? formatDuration(track.duration) : '—'}
+            </span>
+            {track.valid === undefined ? (
+              <span className="w-14 text-center text-xs text-gray-400">解析中…</span>
+            ) : track.valid ? (
+              <span className="w-14 text-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">OK</span>
+            ) : (
+              <span className="w-14 text-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">エラー</span>
+            )}
+            <div className="flex gap-1 text-gray-400">
+              <button
+                onClick={() => onMove(track.id, -1)}
+                disabled={index === 0}
+                className="w-6 h-6 rounded hover:bg-gray-200 hover:text-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                title="上へ"
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => onMove(track.id, 1)}
+                disabled={index === tracks.length - 1}
+                className="w-6 h-6 rounded hover:bg-gray-200 hover:text-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                title="下へ"
+              >
+                ▼
+              </button>
+              <button
+                onClick={() => onRemove(track.id)}
+                className="w-6 h-6 rounded hover:bg-gray-200 hover:text-gray-700"
+                title="リストから削除"
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { formatChunkId } from '@/lib/mmf-parser';
+import { ValidationReport } from '@/lib/mmf-validator';
+
+interface ValidationPanelProps {
+  report: ValidationReport;
+}
+
+const formatOffset = (offset: number): string => `0x${offset.toString(16).toUpperCase().padStart(6, '0')}`;
+const formatCRC = (crc: number): string => `0x${crc.toString(16).toUpperCase().padStart(4, '0')}`;
+
+export default function ValidationPanel({ report }: ValidationPanelProps) {
+  const errors = report.issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+
+  // Opens by itself when the file has errors
+  return (
+    <details open={!report.valid} className="mt-6 bg-white rounded-lg shadow-lg overflow-hidden">
+      <summary className="px-6 py-4 cursor-pointer select-none flex items-center space-x-3">
+        <span className="text-lg font-bold text-gray-800">診断</span>
+        {errors > 0 ? (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+            エラー {errors}
+          </span>
+        ) : (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+            OK
+          </span>
+        )}
+        {warnings > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+            警告 {warnings}
+          </span>
+        )}
+      </summary>
+
+      <div className="px-6 pb-6 space-y-4 text-sm text-gray-700">
+        {/* Container summary */}
+        <div className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <span className="font-medium">ヘッダー:</span>
+            <span>{report.declaredSize !== undefined ? 'MMMD' : '不正'}</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="font-medium">サイズ:</span>
+            <span>
+              宣言 {report.declaredSize !== undefined ? `${report.declaredSize + 8} バイト` : '—'} / 実際 {report.fileSize} バイト
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="font-medium">CRC:</span>
+            <span>
+              {report.crc
+                ? report.crc.match
+                  ? `一致 (${formatCRC(report.crc.stored)})`
+                  : `不一致 (格納値 ${formatCRC(report.crc.stored)} / 計算値 ${formatCRC(report.crc.computed)})`
+                : 'なし'}
+            </span>
+          </div>
+        </div>
+
+        {/* Chunk layout */}
+        {report.chunks.length > 0 && (
+          <table className="w-full text-left font-mono text-xs">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="py-1 font-medium">チャンク</th>
+                <th className="py-1 font-medium">オフセット</th>
+                <th className="py-1 font-medium">サイズ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.chunks.map((chunk) => (
+                <tr key={chunk.offset} className={chunk.known ? '' : 'text-gray-400'}>
+                  <td className="py-0.5">
+                    {formatChunkId(chunk.id)}
+                    {!chunk.known && <span className="ml-2 font-sans">（未対応）</span>}
+                  </td>
+                  <td className="py-0.5">{formatOffset(chunk.offset)}</td>
+                  <td className="py-0.5">{chunk.size}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {/* Issues */}
+        {report.issues.length > 0 ? (
+          <ul className="space-y-1">
+            {report.issues.map((issue, index) => (
+              <li key={index} className="flex items-start space-x-2">
+                <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${
+                  issue.severity === 'error'
+                    ? 'bg-red-100 text-red-800'
+                    : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  {issue.severity === 'error' ? 'エラー' : '警告'}
+                </span>
+                <span className="shrink-0 font-mono text-xs text-gray-500 pt-0.5">{formatOffset(issue.offset)}</span>
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-green-700">問題は見つかりませんでした</p>
+        )}
+      </div>
+    </details>
+  );
+}
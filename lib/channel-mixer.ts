@@ -0,0 +1,146 @@
+/**
+ * Channel mixer
+ * User mute, solo, volume and pan per channel, applied after the song's own
+ * channel volume and pan so both can change during playback
+ */
+
+const RAMP_TIME_CONSTANT = 0.01; // Seconds; smooths changes to avoid clicks
+const METER_FFT_SIZE = 512;
+
+export interface ChannelMix {
+  volume: number;  // 0-1
+  pan: number;     // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+// Per-channel signal path: scheduler bus -> gain -> panner -> destination, with
+// an analyser tapping the output for the level meter
+interface ChannelStrip {
+  gain: GainNode;
+  panner: StereoPannerNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+export function createChannelMix(): ChannelMix {
+  return { volume: 1, pan: 0, mute: false, solo: false };
+}
+
+/** Whether a channel is silenced by its own mute or by another channel's solo. */
+export function isChannelMuted(mix: ChannelMix, soloActive: boolean): boolean {
+  return mix.mute || (soloActive && !mix.solo);
+}
+
+export class ChannelMixer {
+  private context: BaseAudioContext | null = null;
+  private destination: AudioNode | null = null;
+  private mixes = new Map<number, ChannelMix>();
+  private strips = new Map<number, ChannelStrip>();
+
+  /** Route strips to a context's destination. Settings made before are kept. */
+  attach(context: BaseAudioContext, destination: AudioNode = context.destination): void {
+    if (this.context === context && this.destination === destination) return;
+    this.disconnect();
+    this.context = context;
+    this.destination = destination;
+  }
+
+  /** Input node for a channel's audio, created on first use. */
+  getInput(channel: number): AudioNode {
+    return this.getStrip(channel).gain;
+  }
+
+  getMix(channel: number): ChannelMix {
+    return { ...(this.mixes.get(channel) ?? createChannelMix()) };
+  }
+
+  setMute(channel: number, mute: boolean): void {
+    this.update(channel, { mute });
+  }
+
+  setSolo(channel: number, solo: boolean): void {
+    this.update(channel, { solo });
+  }
+
+  setVolume(channel: number, volume: number): void {
+    this.update(channel, { volume: Math.max(0, Math.min(1, volume)) });
+  }
+
+  setPan(channel: number, pan: number): void {
+    this.update(channel, { pan: Math.max(-1, Math.min(1, pan)) });
+  }
+
+  /** Peak output level of a channel (0-1) over the last few milliseconds. */
+  getLevel(channel: number): number {
+    const strip = this.strips.get(channel);
+    if (!strip) return 0;
+
+    strip.analyser.getFloatTimeDomainData(strip.samples);
+    let peak = 0;
+    for (const sample of strip.samples) peak = Math.max(peak, Math.abs(sample));
+    return Math.min(1, peak);
+  }
+
+  /** Back to unity gain, centered and unmuted on every channel. */
+  reset(): void {
+    this.mixes.clear();
+    this.applyAll();
+  }
+
+  /** Disconnect all strips; they are created again on next use. */
+  disconnect(): void {
+    for (const strip of this.strips.values()) {
+      strip.gain.disconnect();
+      strip.panner.disconnect();
+      strip.analyser.disconnect();
+    }
+    this.strips.clear();
+  }
+
+  private update(channel: number, changes: Partial<ChannelMix>): void {
+    this.mixes.set(channel, { ...this.getMix(channel), ...changes });
+    // Solo changes affect every channel
+    this.applyAll();
+  }
+
+  private applyAll(): void {
+    const soloActive = [...this.mixes.values()].some(mix => mix.solo);
+    for (const [channel, strip] of this.strips) {
+      this.applyMix(strip, this.mixes.get(channel) ?? createChannelMix(), soloActive);
+    }
+  }
+
+  private applyMix(strip: ChannelStrip, mix: ChannelMix, soloActive: boolean): void {
+    const time = this.context?.currentTime ?? 0;
+    strip.gain.gain.setTargetAtTime(isChannelMuted(mix, soloActive) ? 0 : mix.volume, time, RAMP_TIME_CONSTANT);
+    strip.panner.pan.setTargetAtTime(mix.pan, time, RAMP_TIME_CONSTANT);
+  }
+
+  private getStrip(channel: number): ChannelStrip {
+    const existing = this.strips.get(channel);
+    if (existing) return existing;
+    if (!this.context || !this.destination) {
+      throw new Error('ChannelMixer is not attached to an audio context');
+    }
+
+    const gain = this.context.createGain();
+    const panner = this.context.createStereoPanner();
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = METER_FFT_SIZE;
+
+    gain.connect(panner);
+    panner.connect(this.destination);
+    panner.connect(analyser);
+
+    const strip = { gain, panner, analyser, samples: new Float32Array(analyser.fftSize) };
+    this.strips.set(channel, strip);
+
+    // Start at the current setting without a ramp
+    const mix = this.mixes.get(channel) ?? createChannelMix();
+    const soloActive = [...this.mixes.values()].some(other => other.solo);
+    gain.gain.value = isChannelMuted(mix, soloActive) ? 0 : mix.volume;
+    panner.pan.value = mix.pan;
+    return strip;
+  }
+}
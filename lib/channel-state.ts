@@ -0,0 +1,105 @@
+/**
+ * Per-channel instrument state
+ * Tracks program, controller and pitch bend values as channel events are applied
+ */
+
+import { MMFChannelEvent } from './mmf-parser';
+
+// General MIDI channel defaults
+const DEFAULT_VOLUME = 100;
+const DEFAULT_EXPRESSION = 127;
+const DEFAULT_PAN = 64;
+const DEFAULT_PITCH_BEND_RANGE = 2; // Semitones
+
+const MAX_VIBRATO_CENTS = 50; // Pitch deviation at full modulation
+
+export interface ChannelState {
+  program: number;
+  bank: number;
+  volume: number;          // 0-127
+  expression: number;      // 0-127
+  pan: number;             // 0-127, 64 = center
+  modulation: number;      // 0-127
+  pitchBend: number;       // -8192 to 8191
+  pitchBendRange: number;  // Semitones
+}
+
+export function createChannelState(): ChannelState {
+  return {
+    program: 0,
+    bank: 0,
+    volume: DEFAULT_VOLUME,
+    expression: DEFAULT_EXPRESSION,
+    pan: DEFAULT_PAN,
+    modulation: 0,
+    pitchBend: 0,
+    pitchBendRange: DEFAULT_PITCH_BEND_RANGE
+  };
+}
+
+export function applyChannelEvent(state: ChannelState, event: MMFChannelEvent): void {
+  switch (event.type) {
+    case 'program':
+      state.program = event.value;
+      break;
+    case 'bankSelect':
+      state.bank = event.value;
+      break;
+    case 'volume':
+      state.volume = event.value;
+      break;
+    case 'expression':
+      state.expression = event.value;
+      break;
+    case 'pan':
+      state.pan = event.value;
+      break;
+    case 'modulation':
+      state.modulation = event.value;
+      break;
+    case 'pitchBend':
+      state.pitchBend = event.value;
+      break;
+    case 'pitchBendRange':
+      state.pitchBendRange = event.value;
+      break;
+  }
+}
+
+/**
+ * Replay channel events up to (but not including) a time, returning the state of
+ * every channel that had an event. Events must be in time order.
+ */
+export function getChannelStatesAt(events: MMFChannelEvent[], time: number): Map<number, ChannelState> {
+  const states = new Map<number, ChannelState>();
+  for (const event of events) {
+    if (event.time >= time) break;
+    let state = states.get(event.channel);
+    if (!state) {
+      state = createChannelState();
+      states.set(event.channel, state);
+    }
+    applyChannelEvent(state, event);
+  }
+  return states;
+}
+
+/** Channel gain from volume and expression (squared, as in General MIDI). */
+export function channelGain(state: ChannelState): number {
+  return Math.pow(state.volume / 127, 2) * Math.pow(state.expression / 127, 2);
+}
+
+/** Stereo position from -1 (left) to 1 (right). */
+export function channelPan(state: ChannelState): number {
+  return Math.max(-1, Math.min(1, (state.pan - 64) / 63));
+}
+
+/** Pitch bend in cents. */
+export function pitchBendCents(state: ChannelState): number {
+  return state.pitchBend / 8192 * state.pitchBendRange * 100;
+}
+
+/** Vibrato depth in cents. */
+export function vibratoCents(state: ChannelState): number {
+  return state.modulation / 127 * MAX_VIBRATO_CENTS;
+}
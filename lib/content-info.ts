@@ -0,0 +1,479 @@
+/**
+ * SMAF content info decoder
+ * Reads song metadata from the CNTI chunk (header plus tagged text) and the
+ * OPDA chunk (Dch sub-chunks of tagged records)
+ */
+
+import type { MMFMetadata } from './mmf-parser';
+import { decodeShiftJIS } from './shift-jis';
+import { CHUNK_HEADER_SIZE, readId, readUInt32BE } from './smaf-chunk';
+
+export const CONTENT_INFO_HEADER_SIZE = 5; // Class, type, code type, copy status, copy count
+
+// Character code types declared by CNTI and Dch
+export const CODE_TYPE_SHIFT_JIS = 0x00;
+export const CODE_TYPE_LATIN1 = 0x01;
+export const CODE_TYPE_EUC_KR = 0x02;
+export const CODE_TYPE_HZ_GB2312 = 0x03;
+export const CODE_TYPE_BIG5 = 0x04;
+export const CODE_TYPE_KOI8_R = 0x05;
+export const CODE_TYPE_TCVN = 0x06;
+export const CODE_TYPE_UCS2 = 0x20;
+export const CODE_TYPE_UCS4 = 0x21;
+export const CODE_TYPE_UTF7 = 0x22;
+export const CODE_TYPE_UTF8 = 0x23;
+export const CODE_TYPE_UTF16 = 0x24;
+export const CODE_TYPE_UTF32 = 0x25;
+
+/**
+ * Text encodings metadata can be decoded in. Names are TextDecoder labels,
+ * except for HZ, UTF-32 and UTF-7, which are decoded here.
+ */
+export type TextEncoding =
+  | 'shift_jis'
+  | 'euc-kr'
+  | 'utf-8'
+  | 'utf-16be'
+  | 'utf-16le'
+  | 'utf-32be'
+  | 'utf-7'
+  | 'big5'
+  | 'gbk'
+  | 'hz-gb-2312'
+  | 'iso-8859-1'
+  | 'koi8-r'
+  | 'windows-1258';
+
+export const TEXT_ENCODINGS: TextEncoding[] = [
+  'shift_jis', 'euc-kr', 'utf-8', 'utf-16be', 'utf-16le', 'utf-32be', 'utf-7',
+  'big5', 'gbk', 'hz-gb-2312', 'iso-8859-1', 'koi8-r', 'windows-1258',
+];
+
+const CODE_TYPE_ENCODINGS: Record<number, TextEncoding> = {
+  [CODE_TYPE_SHIFT_JIS]: 'shift_jis',
+  [CODE_TYPE_LATIN1]: 'iso-8859-1',
+  [CODE_TYPE_EUC_KR]: 'euc-kr',
+  [CODE_TYPE_HZ_GB2312]: 'hz-gb-2312',
+  [CODE_TYPE_BIG5]: 'big5',
+  [CODE_TYPE_KOI8_R]: 'koi8-r',
+  [CODE_TYPE_TCVN]: 'windows-1258', // Closest Vietnamese code page
+  [CODE_TYPE_UCS2]: 'utf-16be',
+  [CODE_TYPE_UCS4]: 'utf-32be',
+  [CODE_TYPE_UTF7]: 'utf-7',
+  [CODE_TYPE_UTF8]: 'utf-8',
+  [CODE_TYPE_UTF16]: 'utf-16be',
+  [CODE_TYPE_UTF32]: 'utf-32be',
+};
+
+// Encodings tried when the code type can't be trusted, in tie-break order
+const DETECT_CANDIDATES: TextEncoding[] = ['shift_jis', 'euc-kr', 'big5'];
+const ASCII_COMPATIBLE = new Set<TextEncoding>(['shift_jis', 'euc-kr', 'utf-8', 'big5', 'gbk', 'iso-8859-1', 'koi8-r', 'windows-1258']);
+const DECLARED_BONUS = 1;
+
+// Metadata fields holding decoded text
+export type MetadataTextField = Exclude<keyof MMFMetadata, 'encoding'>;
+
+// Two-letter content tags and the metadata fields they fill (the first tag
+// for a field is the one the writer uses)
+export const CONTENT_TAGS: Array<[string, MetadataTextField]> = [
+  ['ST', 'title'],
+  ['AN', 'artist'],
+  ['SW', 'composer'],
+  ['AW', 'arranger'],
+  ['WW', 'lyricist'],
+  ['CR', 'copyright'],
+  ['MI', 'managementInfo'],
+  ['CD', 'createdDate'],
+  ['UD', 'modifiedDate'],
+  ['ES', 'editStatus'],
+  ['VN', 'vendor'],
+  ['CA', 'carrier'],
+  ['CN', 'carrier'],
+  ['UR', 'url'],
+];
+const TAG_FIELDS = new Map(CONTENT_TAGS.map(([tag, field]) => [tag, field] as const));
+
+// Record types of the early 1-byte type / 1-byte length CNTI layout
+const LEGACY_FIELDS: Record<number, MetadataTextField> = {
+  0x00: 'title',
+  0x01: 'composer',
+  0x02: 'arranger',
+  0x03: 'copyright',
+};
+
+/**
+ * Decode a CNTI chunk: class, type, code type, copy status and copy count,
+ * then optional "XX:value," tags. Chunks written in the early record layout
+ * are still accepted. The encoding overrides the declared code type.
+ */
+export function decodeContentInfo(data: Uint8Array, encoding?: TextEncoding): MMFMetadata {
+  if (!hasContentTags(data) && isLegacyContentInfo(data)) {
+    return decodeLegacyRecords(data, encoding);
+  }
+  if (data.length <= CONTENT_INFO_HEADER_SIZE) return {};
+
+  const text = data.subarray(CONTENT_INFO_HEADER_SIZE);
+  const resolved = encoding ?? resolveEncoding([text], data[2]);
+  return withEncoding(parseContentTags(decodeText(text, resolved)), resolved);
+}
+
+/**
+ * Decode an OPDA chunk: Dch sub-chunks ('Dch' + code type) holding records of
+ * a two-letter tag, a 16-bit size and the text. Other sub-chunks are skipped.
+ */
+export function decodeOptionalData(data: Uint8Array, encoding?: TextEncoding): MMFMetadata {
+  if (!/^[A-Za-z]{3}/.test(String.fromCharCode(...data.subarray(0, 3)))) {
+    return decodeLegacyRecords(data, encoding);
+  }
+
+  const metadata: MMFMetadata = {};
+  let position = 0;
+  while (position + CHUNK_HEADER_SIZE <= data.length) {
+    const id = readId(data, position);
+    const size = readUInt32BE(data, position + 4);
+    const start = position + CHUNK_HEADER_SIZE;
+    const end = Math.min(start + size, data.length);
+
+    if (id.startsWith('Dch')) {
+      const records: Array<[string, Uint8Array]> = [];
+      let record = start;
+      while (record + 4 <= end) {
+        const tag = String.fromCharCode(data[record], data[record + 1]);
+        const length = (data[record + 2] << 8) | data[record + 3];
+        records.push([tag, data.subarray(record + 4, Math.min(record + 4 + length, end))]);
+        record += 4 + length;
+      }
+
+      const resolved = encoding ?? resolveEncoding(records.map(([, text]) => text), id.charCodeAt(3));
+      for (const [tag, text] of records) {
+        setField(metadata, tag, decodeText(text, resolved));
+      }
+      if (records.length > 0) metadata.encoding ??= resolved;
+    }
+
+    position = end;
+  }
+
+  return metadata;
+}
+
+/**
+ * Decode text in the given encoding. Invalid sequences become U+FFFD.
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  return (decodeWith(encoding, bytes, false) ?? '').replace(/\0/g, '').trim();
+}
+
+/**
+ * Pick the encoding of metadata text. An explicit code type is trusted when
+ * the text decodes cleanly in it; Shift_JIS (0x00, which many tools write
+ * whatever the text is), unknown code types and the early layout without a
+ * code type are detected from the bytes instead.
+ */
+function resolveEncoding(texts: Uint8Array[], codeType?: number): TextEncoding {
+  const declared = codeType === undefined ? undefined : CODE_TYPE_ENCODINGS[codeType];
+  if (declared && codeType !== CODE_TYPE_SHIFT_JIS &&
+      texts.every(text => decodeWith(declared, text, true) !== null)) {
+    return declared;
+  }
+  return detectEncoding(texts, declared);
+}
+
+/**
+ * Guess the encoding of some text fields: byte order marks, UTF-16 zero
+ * bytes and valid UTF-8 first, then the best scoring legacy decoding. The
+ * declared encoding, if any, gets a small head start.
+ */
+export function detectEncoding(texts: Uint8Array[], declared?: TextEncoding): TextEncoding {
+  const fallback = declared && ASCII_COMPATIBLE.has(declared) ? declared : 'shift_jis';
+  const bytes = texts.filter(text => text.length > 0);
+  if (!bytes.some(text => text.some(byte => byte >= 0x80 || byte === 0x00))) return fallback;
+
+  // Byte order mark
+  const [first] = bytes;
+  if (first[0] === 0xEF && first[1] === 0xBB && first[2] === 0xBF) return 'utf-8';
+  if (first[0] === 0xFE && first[1] === 0xFF) return 'utf-16be';
+  if (first[0] === 0xFF && first[1] === 0xFE) return 'utf-16le';
+
+  // ASCII characters in UTF-16 leave zero bytes on one side of each pair
+  let evenZeros = 0;
+  let oddZeros = 0;
+  let total = 0;
+  for (const text of bytes) {
+    // Ignore zero padding after the text
+    let length = text.length;
+    while (length > 0 && text[length - 1] === 0x00) length--;
+    for (let i = 0; i < length; i++) {
+      if (text[i] === 0x00) i % 2 === 0 ? evenZeros++ : oddZeros++;
+    }
+    total += length;
+  }
+  if (total > 0 && (evenZeros + oddZeros) * 4 >= total) {
+    if (evenZeros >= oddZeros * 4) return 'utf-16be';
+    if (oddZeros >= evenZeros * 4) return 'utf-16le';
+  }
+
+  // Legacy multibyte text is almost never valid UTF-8
+  if (bytes.every(text => decodeWith('utf-8', text, true) !== null)) return 'utf-8';
+
+  const candidates = [...new Set([...(declared ? [declared] : []), ...DETECT_CANDIDATES])];
+  if (bytes.every(text => text.length % 2 === 0)) candidates.push('utf-16be', 'utf-16le');
+
+  let best: TextEncoding = fallback;
+  let bestScore = -Infinity;
+  for (const candidate of candidates) {
+    let score = candidate === declared ? DECLARED_BONUS : 0;
+    for (const text of bytes) {
+      const decoded = decodeWith(candidate, text, true);
+      if (decoded === null) {
+        score = -Infinity;
+        break;
+      }
+      score += scoreText(decoded, candidate);
+    }
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * How much decoded text looks like real text. Characters score by script,
+ * with penalties for control, private use and replacement characters, for
+ * Chinese characters in Korean (rare in practice) and for half-width katakana
+ * next to full-width Japanese (common in mis-decoded text).
+ */
+function scoreText(text: string, encoding: TextEncoding): number {
+  let score = 0;
+  let previous = '';
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    let script: string;
+    let value: number;
+
+    if (code === 0x00) {
+      continue;
+    } else if ((code >= 0x20 && code < 0x7F) || code === 0x09 || code === 0x0A || code === 0x0D) {
+      script = 'ascii';
+      value = 1;
+    } else if (code >= 0x3040 && code <= 0x30FF) {
+      script = 'kana';
+      value = 2;
+    } else if (code >= 0xFF61 && code <= 0xFF9F) {
+      script = 'halfwidth';
+      value = 0.75;
+    } else if (code >= 0xAC00 && code <= 0xD7A3) {
+      script = 'hangul';
+      value = 2;
+    } else if (code >= 0x4E00 && code <= 0x9FFF) {
+      script = 'han';
+      value = encoding === 'euc-kr' ? 0.5 : 1.5;
+    } else if ((code >= 0x3000 && code <= 0x303F) || (code >= 0xFF01 && code <= 0xFF5E)) {
+      script = 'symbol';
+      value = 1;
+    } else if (code < 0x20 || (code >= 0x7F && code <= 0x9F) || (code >= 0xE000 && code <= 0xF8FF) || code === 0xFFFD) {
+      script = 'invalid';
+      value = -5;
+    } else {
+      script = 'other';
+      value = 0.25;
+    }
+
+    const fullWidth = (s: string) => s === 'kana' || s === 'han';
+    if ((script === 'halfwidth' && fullWidth(previous)) || (previous === 'halfwidth' && fullWidth(script))) {
+      value -= 1;
+    }
+
+    score += value;
+    previous = script;
+  }
+
+  return score;
+}
+
+/**
+ * Split "XX:value," tagged text. A backslash escapes the next character, so
+ * values can contain commas.
+ */
+function parseContentTags(text: string): MMFMetadata {
+  const metadata: MMFMetadata = {};
+  let position = 0;
+
+  while (position < text.length) {
+    // Skip separators and padding between tags
+    while (position < text.length && /[\s,\0]/.test(text[position])) position++;
+    if (position + 3 > text.length || text[position + 2] !== ':') break;
+
+    const tag = text.slice(position, position + 2);
+    position += 3;
+
+    let value = '';
+    while (position < text.length && text[position] !== ',') {
+      if (text[position] === '\\' && position + 1 < text.length) position++;
+      value += text[position];
+      position++;
+    }
+    setField(metadata, tag, value);
+  }
+
+  return metadata;
+}
+
+function setField(metadata: MMFMetadata, tag: string, value: string): void {
+  const field = TAG_FIELDS.get(tag);
+  const text = value.replace(/\0/g, '').trim();
+  if (field && text && !metadata[field]) metadata[field] = text;
+}
+
+function hasContentTags(data: Uint8Array): boolean {
+  const start = CONTENT_INFO_HEADER_SIZE;
+  return data.length >= start + 3 &&
+    /^[A-Z0-9]{2}:$/.test(String.fromCharCode(...data.subarray(start, start + 3)));
+}
+
+/**
+ * The early layout is a run of records (type 0x00-0x03, length, text) that
+ * exactly fills the chunk.
+ */
+function isLegacyContentInfo(data: Uint8Array): boolean {
+  let position = 0;
+  while (position + 2 <= data.length) {
+    const type = data[position];
+    const length = data[position + 1];
+    if (!(type in LEGACY_FIELDS) || length === 0) return false;
+    position += 2 + length;
+  }
+  return position === data.length && data.length > 0;
+}
+
+function decodeLegacyRecords(data: Uint8Array, encoding?: TextEncoding): MMFMetadata {
+  const records: Array<[MetadataTextField, Uint8Array]> = [];
+  let position = 0;
+
+  while (position + 2 <= data.length) {
+    const type = data[position];
+    const length = data[position + 1];
+    if (length === 0 || position + 2 + length > data.length) break;
+
+    const field = LEGACY_FIELDS[type];
+    if (field) records.push([field, data.subarray(position + 2, position + 2 + length)]);
+    position += 2 + length;
+  }
+
+  // The early layout has no code type
+  const metadata: MMFMetadata = {};
+  const resolved = encoding ?? resolveEncoding(records.map(([, text]) => text));
+  for (const [field, text] of records) {
+    metadata[field] = decodeText(text, resolved);
+  }
+  return withEncoding(metadata, resolved);
+}
+
+// Record the encoding only when something was decoded with it
+function withEncoding(metadata: MMFMetadata, encoding: TextEncoding): MMFMetadata {
+  return Object.keys(metadata).length > 0 ? { ...metadata, encoding } : metadata;
+}
+
+/**
+ * Decode bytes, returning null for invalid input when fatal is set.
+ */
+function decodeWith(encoding: TextEncoding, bytes: Uint8Array, fatal: boolean): string | null {
+  switch (encoding) {
+    case 'shift_jis':
+      try {
+        return decodeShiftJIS(bytes, fatal);
+      } catch {
+        return null;
+      }
+    case 'hz-gb-2312':
+      return decodeWith('gbk', hzToGB(bytes), fatal);
+    case 'utf-32be':
+      return decodeUTF32(bytes);
+    case 'utf-7':
+      return decodeUTF7(bytes);
+  }
+
+  try {
+    return new TextDecoder(encoding, { fatal }).decode(bytes);
+  } catch {
+    // Fallback to ASCII when the platform lacks the encoding
+    return fatal ? null : String.fromCharCode(...bytes);
+  }
+}
+
+/**
+ * HZ wraps 7-bit GB2312 in ~{ ... ~} shifts; convert it to 8-bit GB2312.
+ */
+function hzToGB(bytes: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let gb = false;
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte === 0x7E && i + 1 < bytes.length) {
+      const next = bytes[i + 1];
+      if (next === 0x7B) { gb = true; i++; continue; }
+      if (next === 0x7D) { gb = false; i++; continue; }
+      if (next === 0x7E) { output.push(0x7E); i++; continue; }
+      if (next === 0x0A) { i++; continue; }
+    }
+    output.push(gb && byte >= 0x21 && byte <= 0x7E ? byte | 0x80 : byte);
+  }
+
+  return new Uint8Array(output);
+}
+
+function decodeUTF32(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i + 4 <= bytes.length; i += 4) {
+    const codePoint = readUInt32BE(bytes, i);
+    if (codePoint === 0xFEFF) continue;
+    text += codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '�';
+  }
+  return text;
+}
+
+/**
+ * UTF-7: ASCII with +...- sections of modified base64 UTF-16.
+ */
+function decodeUTF7(bytes: Uint8Array): string {
+  const base64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let text = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const char = String.fromCharCode(bytes[i]);
+    if (char !== '+') {
+      text += char;
+      i++;
+      continue;
+    }
+
+    i++;
+    if (bytes[i] === 0x2D) {
+      // "+-" is a literal plus sign
+      text += '+';
+      i++;
+      continue;
+    }
+
+    let bits = 0;
+    let bitCount = 0;
+    while (i < bytes.length && base64.includes(String.fromCharCode(bytes[i]))) {
+      bits = (bits << 6) | base64.indexOf(String.fromCharCode(bytes[i]));
+      bitCount += 6;
+      if (bitCount >= 16) {
+        bitCount -= 16;
+        text += String.fromCharCode((bits >> bitCount) & 0xFFFF);
+      }
+      i++;
+    }
+    if (bytes[i] === 0x2D) i++;
+  }
+
+  return text;
+}
@@ -0,0 +1,56 @@
+/**
+ * Checksums
+ * SMAF files end with a CRC-16/CCITT (polynomial 0x1021, initial value 0xFFFF)
+ * over the whole file up to the checksum, stored inverted in the last two
+ * bytes. ZIP archives store the standard CRC-32 of each entry.
+ */
+
+const CRC_POLYNOMIAL = 0x1021;
+
+const CRC32_POLYNOMIAL = 0xEDB88320; // Reflected 0x04C11DB7
+
+const CRC_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ CRC_POLYNOMIAL : crc << 1;
+    }
+    table[i] = crc & 0xFFFF;
+  }
+  return table;
+})();
+
+/**
+ * Checksum of a SMAF file body (everything before the two CRC bytes).
+ */
+export function smafCRC(data: Uint8Array): number {
+  let crc = 0xFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >> 8) ^ data[i]) & 0xFF]) & 0xFFFF;
+  }
+  return ~crc & 0xFFFF;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ CRC32_POLYNOMIAL : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 as used by ZIP and PNG.
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crc >>> 8) ^ CRC32_TABLE[(crc ^ data[i]) & 0xFF];
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
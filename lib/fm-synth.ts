@@ -0,0 +1,260 @@
+/**
+ * FM synthesis voice engine
+ * Emulates the 2-operator / 4-operator FM voices of the YAMAHA MA-series (YMU) chips
+ * with Web Audio nodes
+ */
+
+import type { MMFOperator } from './mmf-parser';
+import type { ScheduledVoice, VoiceEngine, VoiceRequest } from './voice-engine';
+import { disconnectDetune, MAX_VOLUME_MULTIPLIER, pitchSources, playDrumVoice, playPresetVoice } from './voice-engine';
+
+export const MAX_MODULATION_INDEX = 2 * Math.PI; // Modulation index of a modulator at TL 0
+const WAVE_HARMONICS = 32; // Harmonics used to build operator waveforms
+export const FEEDBACK_DELAY = 128 / 44100; // Smallest delay Web Audio allows in a cycle
+
+/**
+ * Operator connections for each algorithm.
+ * modulates[i] lists the operators that operator i modulates; carriers go to the output.
+ *   0: 1→2          1: 1 + 2
+ *   2: 1 + 2 + 3 + 4   3: (1 + 2→3)→4   4: 1→2→3→4
+ *   5: 1→2 + 3→4    6: 1 + 2→3→4      7: 1 + 2→3 + 4
+ */
+export const ALGORITHMS: Array<{ modulates: number[][]; carriers: number[] }> = [
+  { modulates: [[1], []], carriers: [1] },
+  { modulates: [[], []], carriers: [0, 1] },
+  { modulates: [[], [], [], []], carriers: [0, 1, 2, 3] },
+  { modulates: [[3], [2], [3], []], carriers: [3] },
+  { modulates: [[1], [2], [3], []], carriers: [3] },
+  { modulates: [[1], [], [3], []], carriers: [1, 3] },
+  { modulates: [[], [2], [3], []], carriers: [0, 3] },
+  { modulates: [[], [2], [], []], carriers: [0, 2, 3] },
+];
+
+// Operator waveforms over one period (phase 0..1)
+export const WAVEFORMS: Array<(phase: number) => number> = [
+  phase => Math.sin(2 * Math.PI * phase),                                  // Sine
+  phase => Math.max(0, Math.sin(2 * Math.PI * phase)),                     // Half sine
+  phase => Math.abs(Math.sin(2 * Math.PI * phase)),                        // Absolute sine
+  phase => (phase % 0.5 < 0.25 ? Math.abs(Math.sin(2 * Math.PI * phase)) : 0), // Quarter sine pulses
+  phase => (phase < 0.5 ? Math.sin(4 * Math.PI * phase) : 0),              // Double-speed sine, first half
+  phase => (phase < 0.5 ? Math.abs(Math.sin(4 * Math.PI * phase)) : 0),    // Double-speed absolute sine
+  phase => (phase < 0.5 ? 1 : -1),                                         // Square
+  phase => 1 - 2 * phase,                                                  // Sawtooth
+];
+
+// The AudioParam automation an envelope uses, so it can also drive a software voice
+export interface EnvelopeParam {
+  setValueAtTime(value: number, time: number): unknown;
+  linearRampToValueAtTime(value: number, time: number): unknown;
+  setTargetAtTime(target: number, time: number, timeConstant: number): unknown;
+}
+
+// Periodic waves are bound to the context that created them
+const waveCache = new WeakMap<BaseAudioContext, Array<PeriodicWave | undefined>>();
+
+/**
+ * FM voice engine.
+ * Each operator is an oscillator followed by an envelope gain; modulators feed
+ * their output into the frequency of the operators they modulate. Channels
+ * without an embedded voice fall back to the built-in instrument bank.
+ */
+export class FMVoiceEngine implements VoiceEngine {
+  readonly mode = 'fm' as const;
+
+  playNote(context: BaseAudioContext, request: VoiceRequest): ScheduledVoice {
+    const voice = request.voice;
+    if (!voice) {
+      return request.drum
+        ? playDrumVoice(context, request, request.drum)
+        : playPresetVoice(context, request);
+    }
+
+    const algorithm = ALGORITHMS[voice.algorithm] ?? ALGORITHMS[0];
+    const operatorCount = algorithm.modulates.length;
+    const { startTime, endTime } = request;
+
+    const oscillators: OscillatorNode[] = [];
+    const nodes: AudioNode[] = [];
+    let stopTime = endTime;
+
+    // Create operators
+    const outputs = voice.operators.slice(0, operatorCount).map((operator, index) => {
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+      const frequency = request.frequency * (operator.multiplier === 0 ? 0.5 : operator.multiplier);
+
+      oscillator.frequency.value = frequency;
+      setWaveform(context, oscillator, operator.waveform);
+      oscillator.connect(envelope);
+
+      const isCarrier = algorithm.carriers.includes(index);
+      const level = operatorLevel(operator.totalLevel) * (isCarrier
+        ? request.velocity / 127 * MAX_VOLUME_MULTIPLIER / algorithm.carriers.length
+        : 1);
+      const releaseEnd = scheduleEnvelope(envelope.gain, operator, level, startTime, endTime);
+      stopTime = Math.max(stopTime, releaseEnd);
+
+      // Pitch bend moves every operator; the LFO only those flagged for vibrato
+      for (const source of operatorDetuneSources(request, operator)) {
+        source.connect(oscillator.detune);
+      }
+
+      // Self feedback goes through a delay, which Web Audio requires for cycles
+      if (operator.feedback > 0) {
+        const feedbackGain = context.createGain();
+        const delay = context.createDelay(FEEDBACK_DELAY);
+        delay.delayTime.value = FEEDBACK_DELAY;
+        feedbackGain.gain.value = feedbackIndex(operator.feedback) * frequency;
+        envelope.connect(feedbackGain);
+        feedbackGain.connect(delay);
+        delay.connect(oscillator.frequency);
+        nodes.push(feedbackGain, delay);
+      }
+
+      oscillators.push(oscillator);
+      nodes.push(envelope);
+      return { envelope, oscillator, frequency };
+    });
+
+    // Wire modulators into their targets and carriers into the destination
+    const output = context.createGain();
+    output.connect(request.destination);
+    nodes.push(output);
+
+    outputs.forEach(({ envelope, frequency }, index) => {
+      for (const target of algorithm.modulates[index] ?? []) {
+        if (!outputs[target]) continue;
+        const modulation = context.createGain();
+        modulation.gain.value = MAX_MODULATION_INDEX * frequency;
+        envelope.connect(modulation);
+        modulation.connect(outputs[target].oscillator.frequency);
+        nodes.push(modulation);
+      }
+      if (algorithm.carriers.includes(index)) {
+        envelope.connect(output);
+      }
+    });
+
+    for (const oscillator of oscillators) {
+      oscillator.start(startTime);
+      oscillator.stop(stopTime);
+    }
+
+    return {
+      source: oscillators[oscillators.length - 1],
+      stop: () => {
+        for (const oscillator of oscillators) oscillator.stop();
+      },
+      disconnect: () => {
+        oscillators.forEach((oscillator, index) => {
+          disconnectDetune(operatorDetuneSources(request, voice.operators[index]), oscillator);
+          oscillator.disconnect();
+        });
+        for (const node of nodes) node.disconnect();
+      }
+    };
+  }
+}
+
+/** Linear gain for a total level (0.75 dB per step). */
+export function operatorLevel(totalLevel: number): number {
+  return Math.pow(10, -0.75 * totalLevel / 20);
+}
+
+/** Feedback modulation index (0, π/16 ... 4π). */
+export function feedbackIndex(feedback: number): number {
+  return feedback === 0 ? 0 : Math.PI / 16 * Math.pow(2, feedback - 1);
+}
+
+/** Channel pitch sources an operator follows: bend always, the LFO with its vibrato flag. */
+function operatorDetuneSources(request: VoiceRequest, operator: MMFOperator): AudioNode[] {
+  return operator.vibrato ? pitchSources(request) : request.detuneSources;
+}
+
+/** Attack time in seconds (rate 15 is instant, rate 0 never finishes). */
+function attackTime(rate: number): number {
+  return rate === 0 ? Infinity : 0.002 * Math.pow(2, (15 - rate) * 0.7);
+}
+
+/** Decay / release time constant in seconds (rate 0 holds the level). */
+function decayTime(rate: number): number {
+  return rate === 0 ? Infinity : 0.01 * Math.pow(2, (15 - rate) * 0.6);
+}
+
+/**
+ * Schedule an ADSR envelope and return the time at which the release has died out.
+ */
+export function scheduleEnvelope(
+  gain: EnvelopeParam,
+  operator: MMFOperator,
+  level: number,
+  startTime: number,
+  endTime: number
+): number {
+  const attack = attackTime(operator.attackRate);
+  const attackEnd = Math.min(startTime + attack, endTime);
+  // A note released mid-attack only reaches part of its level
+  const peak = level * (attack === Infinity ? 0 : Math.min(1, (attackEnd - startTime) / attack || 1));
+
+  gain.setValueAtTime(0, startTime);
+  gain.linearRampToValueAtTime(peak, attackEnd);
+
+  if (attackEnd < endTime) {
+    const decay = decayTime(operator.decayRate);
+    const sustainLevel = peak * Math.pow(10, -3 * operator.sustainLevel / 20);
+    if (decay !== Infinity) {
+      gain.setTargetAtTime(sustainLevel, attackEnd, decay / 3);
+
+      // Without sustain the level keeps falling at the sustain rate once it gets there
+      const sustainRate = decayTime(operator.sustainRate);
+      const sustainStart = attackEnd + decay;
+      if (!operator.sustain && sustainRate !== Infinity && sustainStart < endTime) {
+        gain.setTargetAtTime(0, sustainStart, sustainRate / 3);
+      }
+    }
+  }
+
+  const release = decayTime(operator.releaseRate);
+  const releaseLength = release === Infinity ? 0 : release;
+  gain.setTargetAtTime(0, endTime, Math.max(releaseLength, 0.005) / 3);
+  return endTime + releaseLength;
+}
+
+function setWaveform(context: BaseAudioContext, oscillator: OscillatorNode, waveform: number): void {
+  if (!(waveform > 0 && waveform < WAVEFORMS.length)) {
+    oscillator.type = 'sine';
+    return;
+  }
+
+  let waves = waveCache.get(context);
+  if (!waves) {
+    waves = [];
+    waveCache.set(context, waves);
+  }
+  waves[waveform] ??= createWave(context, WAVEFORMS[waveform]);
+  oscillator.setPeriodicWave(waves[waveform]!);
+}
+
+/**
+ * Build a PeriodicWave from a waveform function using a discrete Fourier transform.
+ */
+function createWave(context: BaseAudioContext, shape: (phase: number) => number): PeriodicWave {
+  const samples = 256;
+  const real = new Float32Array(WAVE_HARMONICS + 1);
+  const imag = new Float32Array(WAVE_HARMONICS + 1);
+
+  for (let harmonic = 1; harmonic <= WAVE_HARMONICS; harmonic++) {
+    let cosSum = 0;
+    let sinSum = 0;
+    for (let i = 0; i < samples; i++) {
+      const phase = i / samples;
+      const value = shape(phase);
+      cosSum += value * Math.cos(2 * Math.PI * harmonic * phase);
+      sinSum += value * Math.sin(2 * Math.PI * harmonic * phase);
+    }
+    real[harmonic] = 2 * cosSum / samples;
+    imag[harmonic] = 2 * sinSum / samples;
+  }
+
+  return context.createPeriodicWave(real, imag);
+}
@@ -0,0 +1,287 @@
+/**
+ * DEFLATE decompressor (RFC 1951)
+ * Unpacks raw deflate streams such as ZIP entries without a dependency.
+ * Huffman codes are decoded a bit at a time from canonical code counts,
+ * which is plenty fast for ringtone-sized files.
+ */
+
+const MAX_BITS = 15;
+const LITERAL_CODES = 288;
+const DISTANCE_CODES = 30;
+const END_OF_BLOCK = 256;
+
+// Base lengths and extra bits for length codes 257-285
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+// Base distances and extra bits for distance codes 0-29
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order code length code lengths are stored in, in dynamic block headers
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// Canonical Huffman code: how many codes have each length, and the symbols
+// sorted by code
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+let fixedCodes: { literals: Huffman; distances: Huffman } | null = null;
+
+/**
+ * Decompress a raw deflate stream (no zlib or gzip header). `sizeHint` is
+ * the expected output size when known, to avoid growing the buffer.
+ */
+export function inflateRaw(data: Uint8Array, sizeHint?: number): Uint8Array<ArrayBuffer> {
+  const reader = new BitReader(data);
+  const output = new OutputBuffer(sizeHint ?? data.length * 4);
+
+  let final = false;
+  while (!final) {
+    final = reader.bits(1) === 1;
+    const type = reader.bits(2);
+    if (type === 0) {
+      inflateStored(reader, output);
+    } else if (type === 1) {
+      const { literals, distances } = getFixedCodes();
+      inflateCodes(reader, output, literals, distances);
+    } else if (type === 2) {
+      const { literals, distances } = readDynamicCodes(reader);
+      inflateCodes(reader, output, literals, distances);
+    } else {
+      throw new Error('Invalid deflate data: reserved block type');
+    }
+  }
+
+  return output.result();
+}
+
+function inflateStored(reader: BitReader, output: OutputBuffer): void {
+  reader.alignToByte();
+  const length = reader.bits(16);
+  const complement = reader.bits(16);
+  if ((length ^ 0xFFFF) !== complement) {
+    throw new Error('Invalid deflate data: stored block length check failed');
+  }
+  output.append(reader.bytes(length));
+}
+
+function inflateCodes(reader: BitReader, output: OutputBuffer, literals: Huffman, distances: Huffman): void {
+  for (;;) {
+    const symbol = decodeSymbol(reader, literals);
+    if (symbol < END_OF_BLOCK) {
+      output.push(symbol);
+      continue;
+    }
+    if (symbol === END_OF_BLOCK) return;
+
+    const lengthCode = symbol - 257;
+    if (lengthCode >= LENGTH_BASE.length) {
+      throw new Error('Invalid deflate data: bad length code');
+    }
+    const length = LENGTH_BASE[lengthCode] + reader.bits(LENGTH_EXTRA[lengthCode]);
+
+    const distanceCode = decodeSymbol(reader, distances);
+    if (distanceCode >= DISTANCE_CODES) {
+      throw new Error('Invalid deflate data: bad distance code');
+    }
+    const distance = DISTANCE_BASE[distanceCode] + reader.bits(DISTANCE_EXTRA[distanceCode]);
+    output.copy(distance, length);
+  }
+}
+
+function readDynamicCodes(reader: BitReader): { literals: Huffman; distances: Huffman } {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+  if (literalCount > 286 || distanceCount > DISTANCE_CODES) {
+    throw new Error('Invalid deflate data: too many codes');
+  }
+
+  const codeLengthLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthCode = buildHuffman(codeLengthLengths, true);
+
+  // Literal/length and distance code lengths form one run-length coded sequence
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengthCode);
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue;
+    }
+
+    let value = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      if (index === 0) throw new Error('Invalid deflate data: repeat with no previous length');
+      value = lengths[index - 1];
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (index + repeat > lengths.length) {
+      throw new Error('Invalid deflate data: code lengths overflow');
+    }
+    lengths.fill(value, index, index + repeat);
+    index += repeat;
+  }
+
+  if (lengths[END_OF_BLOCK] === 0) {
+    throw new Error('Invalid deflate data: no end-of-block code');
+  }
+
+  return {
+    literals: buildHuffman(lengths.subarray(0, literalCount), false),
+    distances: buildHuffman(lengths.subarray(literalCount), false)
+  };
+}
+
+function getFixedCodes(): { literals: Huffman; distances: Huffman } {
+  if (!fixedCodes) {
+    const literalLengths = new Uint8Array(LITERAL_CODES);
+    literalLengths.fill(8, 0, 144);
+    literalLengths.fill(9, 144, 256);
+    literalLengths.fill(7, 256, 280);
+    literalLengths.fill(8, 280, LITERAL_CODES);
+    fixedCodes = {
+      literals: buildHuffman(literalLengths, false),
+      distances: buildHuffman(new Uint8Array(DISTANCE_CODES).fill(5), false)
+    };
+  }
+  return fixedCodes;
+}
+
+/**
+ * Canonical Huffman code from code lengths. Incomplete codes are allowed
+ * (deflate uses them for single distance codes) unless `complete` is set.
+ */
+function buildHuffman(lengths: Uint8Array, complete: boolean): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (const length of lengths) counts[length]++;
+  counts[0] = 0;
+
+  // Codes left after each length; negative means over-subscribed
+  let left = 1;
+  for (let length = 1; length <= MAX_BITS; length++) {
+    left = (left << 1) - counts[length];
+    if (left < 0) throw new Error('Invalid deflate data: over-subscribed Huffman code');
+  }
+  if (complete && left > 0) {
+    throw new Error('Invalid deflate data: incomplete Huffman code');
+  }
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let length = 1; length < MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length > 0) symbols[offsets[length]++] = symbol;
+  });
+
+  return { counts, symbols };
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  let code = 0;   // Bits read so far
+  let first = 0;  // First code of the current length
+  let index = 0;  // Index of the first symbol of the current length
+  for (let length = 1; length <= MAX_BITS; length++) {
+    code |= reader.bits(1);
+    const count = huffman.counts[length];
+    if (code - first < count) return huffman.symbols[index + code - first];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Invalid deflate data: bad Huffman code');
+}
+
+class BitReader {
+  private data: Uint8Array;
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  /** Read n bits (up to 16), least significant first. */
+  bits(n: number): number {
+    while (this.bitCount < n) {
+      if (this.position >= this.data.length) {
+        throw new Error('Invalid deflate data: unexpected end of stream');
+      }
+      this.bitBuffer |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << n) - 1);
+    this.bitBuffer >>>= n;
+    this.bitCount -= n;
+    return value;
+  }
+
+  alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.position + length > this.data.length) {
+      throw new Error('Invalid deflate data: unexpected end of stream');
+    }
+    const bytes = this.data.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+}
+
+class OutputBuffer {
+  private buffer: Uint8Array<ArrayBuffer>;
+  private length = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  push(byte: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  append(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /** Copy `length` bytes starting `distance` back; the ranges may overlap. */
+  copy(distance: number, length: number): void {
+    if (distance > this.length) {
+      throw new Error('Invalid deflate data: distance too far back');
+    }
+    this.reserve(length);
+    for (let i = 0; i < length; i++) {
+      this.buffer[this.length] = this.buffer[this.length - distance];
+      this.length++;
+    }
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private reserve(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + extra));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DRUM_BANK, findPercussionNotes } from './instrument-bank';
+import type { MMFChannelEvent, MMFNote } from './mmf-parser';
+
+describe('findPercussionNotes', () => {
+  it('marks the percussion channel and channels switched to the drum bank', () => {
+    const notes: MMFNote[] = [
+      { time: 0, note: 60, duration: 100, velocity: 100, channel: 0 },
+      { time: 0, note: 38, duration: 100, velocity: 100, channel: 9 },
+      { time: 500, note: 36, duration: 100, velocity: 100, channel: 0 },
+      { time: 1000, note: 64, duration: 100, velocity: 100, channel: 0 }
+    ];
+    const channelEvents: MMFChannelEvent[] = [
+      { time: 500, channel: 0, type: 'bankSelect', value: DRUM_BANK },
+      { time: 1000, channel: 0, type: 'bankSelect', value: 0 }
+    ];
+
+    const drums = findPercussionNotes(notes, channelEvents);
+    expect(notes.map(note => drums.has(note))).toEqual([false, true, true, false]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Built-in instrument bank
+ * Maps program numbers to synthesis presets for files without embedded voices,
+ * plus a drum kit for the percussion channel
+ */
+
+import type { MMFChannelEvent, MMFNote } from './mmf-parser';
+
+export const PERCUSSION_CHANNEL = 9; // General MIDI percussion channel (10th)
+export const DRUM_BANK = 0x7D;       // SMAF drum bank select MSB
+
+export interface Envelope {
+  attack: number;      // Seconds
+  decay: number;       // Seconds
+  sustain: number;     // Level relative to the peak (0-1)
+  release: number;     // Seconds
+}
+
+export interface InstrumentPreset {
+  name: string;
+  waveform: OscillatorType;
+  envelope: Envelope;
+  filter?: { type: BiquadFilterType; frequency: number; q: number };
+  detune: number;      // Cents between two layered oscillators (0 = single oscillator)
+  gain: number;        // Level trim to balance waveforms
+}
+
+export type DrumKind = 'kick' | 'snare' | 'clap' | 'closedHat' | 'openHat' | 'tom' | 'crash' | 'ride';
+
+export interface DrumPreset {
+  kind: DrumKind;
+  tone?: { startFrequency: number; endFrequency: number; decay: number }; // Pitched sine part
+  noise?: { type: BiquadFilterType; frequency: number; decay: number };   // Filtered noise part
+  gain: number;
+}
+
+// One preset per General MIDI family of 8 programs
+const FAMILY_PRESETS: InstrumentPreset[] = [
+  {
+    name: 'Piano', waveform: 'triangle', detune: 0, gain: 1.2,
+    envelope: { attack: 0.005, decay: 0.8, sustain: 0.2, release: 0.3 },
+    filter: { type: 'lowpass', frequency: 3000, q: 0.7 }
+  },
+  {
+    name: 'Chromatic Percussion', waveform: 'sine', detune: 0, gain: 1.4,
+    envelope: { attack: 0.001, decay: 0.5, sustain: 0, release: 0.3 }
+  },
+  {
+    name: 'Organ', waveform: 'square', detune: 4, gain: 0.6,
+    envelope: { attack: 0.01, decay: 0.1, sustain: 0.9, release: 0.08 },
+    filter: { type: 'lowpass', frequency: 2500, q: 0.7 }
+  },
+  {
+    name: 'Guitar', waveform: 'sawtooth', detune: 0, gain: 0.8,
+    envelope: { attack: 0.002, decay: 0.6, sustain: 0.1, release: 0.2 },
+    filter: { type: 'lowpass', frequency: 2000, q: 1 }
+  },
+  {
+    name: 'Bass', waveform: 'sawtooth', detune: 0, gain: 1,
+    envelope: { attack: 0.005, decay: 0.3, sustain: 0.5, release: 0.1 },
+    filter: { type: 'lowpass', frequency: 800, q: 1.5 }
+  },
+  {
+    name: 'Strings', waveform: 'sawtooth', detune: 8, gain: 0.6,
+    envelope: { attack: 0.15, decay: 0.2, sustain: 0.8, release: 0.4 },
+    filter: { type: 'lowpass', frequency: 3000, q: 0.7 }
+  },
+  {
+    name: 'Ensemble', waveform: 'sawtooth', detune: 10, gain: 0.6,
+    envelope: { attack: 0.2, decay: 0.2, sustain: 0.8, release: 0.5 },
+    filter: { type: 'lowpass', frequency: 2500, q: 0.7 }
+  },
+  {
+    name: 'Brass', waveform: 'sawtooth', detune: 3, gain: 0.7,
+    envelope: { attack: 0.04, decay: 0.2, sustain: 0.7, release: 0.15 },
+    filter: { type: 'lowpass', frequency: 2500, q: 1.2 }
+  },
+  {
+    name: 'Reed', waveform: 'square', detune: 0, gain: 0.6,
+    envelope: { attack: 0.03, decay: 0.1, sustain: 0.8, release: 0.1 },
+    filter: { type: 'lowpass', frequency: 2000, q: 1 }
+  },
+  {
+    name: 'Pipe', waveform: 'sine', detune: 0, gain: 1.3,
+    envelope: { attack: 0.05, decay: 0.1, sustain: 0.9, release: 0.15 }
+  },
+  {
+    name: 'Synth Lead', waveform: 'square', detune: 6, gain: 0.6,
+    envelope: { attack: 0.005, decay: 0.1, sustain: 0.8, release: 0.1 }
+  },
+  {
+    name: 'Synth Pad', waveform: 'sawtooth', detune: 12, gain: 0.6,
+    envelope: { attack: 0.3, decay: 0.3, sustain: 0.7, release: 0.6 },
+    filter: { type: 'lowpass', frequency: 1500, q: 0.7 }
+  },
+  {
+    name: 'Synth Effects', waveform: 'triangle', detune: 15, gain: 1,
+    envelope: { attack: 0.1, decay: 0.4, sustain: 0.6, release: 0.5 }
+  },
+  {
+    name: 'Ethnic', waveform: 'triangle', detune: 0, gain: 1.2,
+    envelope: { attack: 0.003, decay: 0.4, sustain: 0.2, release: 0.2 },
+    filter: { type: 'lowpass', frequency: 3500, q: 1 }
+  },
+  {
+    name: 'Percussive', waveform: 'sine', detune: 0, gain: 1.4,
+    envelope: { attack: 0.001, decay: 0.3, sustain: 0, release: 0.2 }
+  },
+  {
+    name: 'Sound Effects', waveform: 'sawtooth', detune: 20, gain: 0.5,
+    envelope: { attack: 0.01, decay: 0.3, sustain: 0.4, release: 0.3 },
+    filter: { type: 'bandpass', frequency: 1200, q: 2 }
+  },
+];
+
+const KICK: DrumPreset = { kind: 'kick', tone: { startFrequency: 150, endFrequency: 45, decay: 0.3 }, gain: 1.5 };
+const SNARE: DrumPreset = {
+  kind: 'snare',
+  tone: { startFrequency: 220, endFrequency: 160, decay: 0.08 },
+  noise: { type: 'highpass', frequency: 1200, decay: 0.18 },
+  gain: 1
+};
+const CLAP: DrumPreset = { kind: 'clap', noise: { type: 'bandpass', frequency: 1500, decay: 0.15 }, gain: 1.2 };
+const CLOSED_HAT: DrumPreset = { kind: 'closedHat', noise: { type: 'highpass', frequency: 7000, decay: 0.05 }, gain: 0.6 };
+const OPEN_HAT: DrumPreset = { kind: 'openHat', noise: { type: 'highpass', frequency: 7000, decay: 0.3 }, gain: 0.5 };
+const CRASH: DrumPreset = { kind: 'crash', noise: { type: 'highpass', frequency: 5000, decay: 1.2 }, gain: 0.5 };
+const RIDE: DrumPreset = { kind: 'ride', noise: { type: 'bandpass', frequency: 8000, decay: 0.8 }, gain: 0.5 };
+
+// General MIDI percussion key map
+const DRUM_KIT: Record<number, DrumPreset> = {
+  35: KICK, 36: KICK,
+  37: CLAP, 38: SNARE, 39: CLAP, 40: SNARE,
+  42: CLOSED_HAT, 44: CLOSED_HAT, 46: OPEN_HAT,
+  49: CRASH, 52: CRASH, 55: CRASH, 57: CRASH,
+  51: RIDE, 53: RIDE, 59: RIDE,
+};
+
+// Toms: low floor tom (41) to high tom (50)
+const TOM_NOTES = [41, 43, 45, 47, 48, 50];
+
+export function getInstrumentPreset(program: number): InstrumentPreset {
+  return FAMILY_PRESETS[(program >> 3) & 0x0F];
+}
+
+export function getDrumPreset(note: number): DrumPreset {
+  const tomIndex = TOM_NOTES.indexOf(note);
+  if (tomIndex !== -1) {
+    const frequency = 90 + tomIndex * 30;
+    return { kind: 'tom', tone: { startFrequency: frequency, endFrequency: frequency * 0.7, decay: 0.35 }, gain: 1.2 };
+  }
+  return DRUM_KIT[note] ?? CLOSED_HAT;
+}
+
+/**
+ * Whether a channel plays drums: the GM percussion channel or the SMAF drum bank.
+ */
+export function isPercussion(channel: number, bank: number): boolean {
+  return channel === PERCUSSION_CHANNEL || bank === DRUM_BANK;
+}
+
+/**
+ * Notes that play drums, following bank selects as the scheduler does.
+ * Notes and channel events are in time order.
+ */
+export function findPercussionNotes(notes: MMFNote[], channelEvents: MMFChannelEvent[]): Set<MMFNote> {
+  const banks = new Map<number, number>();
+  const drums = new Set<MMFNote>();
+  let eventIndex = 0;
+
+  for (const note of notes) {
+    while (eventIndex < channelEvents.length && channelEvents[eventIndex].time <= note.time) {
+      const event = channelEvents[eventIndex++];
+      if (event.type === 'bankSelect') banks.set(event.channel, event.value);
+    }
+    if (isPercussion(note.channel, banks.get(note.channel) ?? 0)) drums.add(note);
+  }
+
+  return drums;
+}
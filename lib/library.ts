@@ -0,0 +1,153 @@
+/**
+ * Song library
+ * Keeps dropped MMF files in IndexedDB so they survive a reload. Song details
+ * and file bytes are in separate stores, so listing the library doesn't read
+ * every file.
+ */
+
+import { MMFData, MMFMetadata } from './mmf-parser';
+import { crc32 } from './crc';
+
+const DB_NAME = 'mmf-player';
+const DB_VERSION = 1;
+const SONG_STORE = 'songs';
+const FILE_STORE = 'files';   // File bytes keyed by song ID
+const CHECKSUM_INDEX = 'checksum';
+
+export interface LibrarySong {
+  id: number;
+  name: string;            // File name
+  size: number;            // File size in bytes
+  checksum: number;        // CRC-32 of the file, to recognize the same file added again
+  metadata: MMFMetadata;
+  duration: number;        // Milliseconds
+  favorite: boolean;
+  addedAt: number;         // Unix time in milliseconds
+  lastPlayedAt?: number;
+  lastPosition: number;    // Where playback last stopped, in milliseconds
+}
+
+export type LibrarySongChanges = Partial<Pick<LibrarySong, 'favorite' | 'lastPlayedAt' | 'lastPosition'>>;
+
+/** Open the library database, creating it on first use. */
+export function openLibrary(): Promise<MMFLibrary> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const db = open.result;
+    const songs = db.createObjectStore(SONG_STORE, { keyPath: 'id', autoIncrement: true });
+    songs.createIndex(CHECKSUM_INDEX, 'checksum');
+    db.createObjectStore(FILE_STORE);
+  };
+  return request(open).then(db => new MMFLibrary(db));
+}
+
+/**
+ * Songs whose title, composer, artist or file name contain every word of the
+ * query (case-insensitive), optionally favorites only.
+ */
+export function searchLibrary(songs: LibrarySong[], query: string, favoritesOnly = false): LibrarySong[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return songs.filter(song => {
+    if (favoritesOnly && !song.favorite) return false;
+    const { title, composer, artist } = song.metadata;
+    const text = [title, composer, artist, song.name].filter(Boolean).join('\n').toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+}
+
+export class MMFLibrary {
+  private db: IDBDatabase;
+
+  constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  /** All songs, most recently played or added first. */
+  async list(): Promise<LibrarySong[]> {
+    const transaction = this.db.transaction(SONG_STORE, 'readonly');
+    const songs = await request(transaction.objectStore(SONG_STORE).getAll() as IDBRequest<LibrarySong[]>);
+    return songs.sort((a, b) => (b.lastPlayedAt ?? b.addedAt) - (a.lastPlayedAt ?? a.addedAt));
+  }
+
+  /**
+   * Store a parsed MMF file. A file already in the library is not stored
+   * again; its existing entry is returned instead.
+   */
+  async add(name: string, buffer: ArrayBuffer, data: MMFData): Promise<LibrarySong> {
+    const checksum = crc32(new Uint8Array(buffer));
+    const transaction = this.db.transaction([SONG_STORE, FILE_STORE], 'readwrite');
+    const songs = transaction.objectStore(SONG_STORE);
+
+    const matches = await request(songs.index(CHECKSUM_INDEX).getAll(checksum) as IDBRequest<LibrarySong[]>);
+    const existing = matches.find(song => song.size === buffer.byteLength);
+    if (existing) return existing;
+
+    const song: Omit<LibrarySong, 'id'> = {
+      name,
+      size: buffer.byteLength,
+      checksum,
+      metadata: data.metadata,
+      duration: data.duration,
+      favorite: false,
+      addedAt: Date.now(),
+      lastPosition: 0
+    };
+    const id = await request(songs.add(song)) as number;
+    transaction.objectStore(FILE_STORE).put(buffer, id);
+    await complete(transaction);
+    return { ...song, id };
+  }
+
+  /** The stored file of a song. */
+  async getFile(id: number): Promise<ArrayBuffer> {
+    const transaction = this.db.transaction(FILE_STORE, 'readonly');
+    const buffer = await request(transaction.objectStore(FILE_STORE).get(id) as IDBRequest<ArrayBuffer | undefined>);
+    if (!buffer) {
+      throw new Error(`Song ${id} is not in the library`);
+    }
+    return buffer;
+  }
+
+  /** Change a song's favorite flag or playback position. Returns null when the song is gone. */
+  async update(id: number, changes: LibrarySongChanges): Promise<LibrarySong | null> {
+    const transaction = this.db.transaction(SONG_STORE, 'readwrite');
+    const songs = transaction.objectStore(SONG_STORE);
+    const song = await request(songs.get(id) as IDBRequest<LibrarySong | undefined>);
+    if (!song) return null;
+
+    const updated = { ...song, ...changes };
+    songs.put(updated);
+    await complete(transaction);
+    return updated;
+  }
+
+  async delete(id: number): Promise<void> {
+    const transaction = this.db.transaction([SONG_STORE, FILE_STORE], 'readwrite');
+    transaction.objectStore(SONG_STORE).delete(id);
+    transaction.objectStore(FILE_STORE).delete(id);
+    await complete(transaction);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
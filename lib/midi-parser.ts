@@ -0,0 +1,257 @@
+/**
+ * Standard MIDI File parser
+ * Reads format 0/1 SMF data into the same MMFData structure the MMF parser
+ * produces, so imported MIDI files can be played and converted to MMF
+ */
+
+import {
+  ChannelEventTracker,
+  MMFChannelEvent,
+  MMFData,
+  MMFMetadata,
+  MMFNote,
+  MMFTimeSignature,
+  NoteTracker
+} from './mmf-parser';
+import { buildTempoMap, tickToMs, TempoChange } from './tempo-map';
+import { decodeShiftJIS } from './shift-jis';
+
+// Meta event types
+const META_COPYRIGHT = 0x02;
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2F;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+
+interface MIDITrack {
+  notes: MMFNote[];                  // Time and duration in ticks
+  channelEvents: MMFChannelEvent[];  // Time in ticks
+}
+
+export class MIDIParser {
+  private data: Uint8Array;
+  private position: number = 0;
+  private metadata: MMFMetadata = {};
+  private tempoChanges: TempoChange[] = [];
+  private timeSignature?: MMFTimeSignature;
+
+  constructor(arrayBuffer: ArrayBuffer) {
+    this.data = new Uint8Array(arrayBuffer);
+  }
+
+  parse(): MMFData {
+    if (this.readChunkId() !== 'MThd') {
+      throw new Error('Invalid MIDI file: MThd header not found');
+    }
+
+    const headerSize = this.readUInt32BE();
+    const headerEnd = this.position + headerSize;
+    this.readUInt16BE(); // Format (0, 1 or 2; all tracks are merged)
+    const trackCount = this.readUInt16BE();
+    const division = this.readUInt16BE();
+    this.position = headerEnd;
+
+    if (division & 0x8000) {
+      throw new Error('SMPTE time division is not supported');
+    }
+    if (division === 0) {
+      throw new Error('Invalid MIDI file: zero time division');
+    }
+
+    const tracks: MIDITrack[] = [];
+    for (let i = 0; i < trackCount && this.position + 8 <= this.data.length; i++) {
+      const id = this.readChunkId();
+      const size = this.readUInt32BE();
+      const end = Math.min(this.position + size, this.data.length);
+      if (id === 'MTrk') {
+        tracks.push(this.parseTrack(end, i === 0));
+      }
+      this.position = end;
+    }
+
+    const tempoMap = buildTempoMap(this.tempoChanges, division);
+    const notes: MMFNote[] = [];
+    const channelEvents: MMFChannelEvent[] = [];
+    let duration = 0;
+
+    for (const track of tracks) {
+      for (const note of track.notes) {
+        const start = tickToMs(tempoMap, division, note.time);
+        const end = tickToMs(tempoMap, division, note.time + note.duration);
+        notes.push({ ...note, time: start, duration: end - start });
+        duration = Math.max(duration, end);
+      }
+      for (const event of track.channelEvents) {
+        channelEvents.push({ ...event, time: tickToMs(tempoMap, division, event.time) });
+      }
+    }
+
+    return {
+      metadata: this.metadata,
+      notes: notes.sort((a, b) => a.time - b.time),
+      channelEvents: channelEvents.sort((a, b) => a.time - b.time),
+      duration,
+      tempo: Math.round(tempoMap[0].tempo),
+      tempoMap,
+      resolution: division,
+      timeSignature: this.timeSignature ?? { numerator: 4, denominator: 4 },
+      voices: {},
+      audioEvents: [],
+      waves: {}
+    };
+  }
+
+  private parseTrack(endPos: number, isFirstTrack: boolean): MIDITrack {
+    const tracker = new NoteTracker();
+    const controls = new ChannelEventTracker();
+    let tick = 0;
+    let runningStatus = 0;
+
+    while (this.position < endPos) {
+      tick += this.readVariableLength();
+      if (this.position >= endPos) break;
+
+      let status = this.data[this.position];
+      if (status & 0x80) {
+        this.position++;
+      } else {
+        // Running status: reuse the previous channel message status
+        status = runningStatus;
+      }
+
+      if (status === 0xFF) {
+        const type = this.readUInt8();
+        const length = this.readVariableLength();
+        const data = this.data.subarray(this.position, Math.min(this.position + length, endPos));
+        this.position += length;
+        if (type === META_END_OF_TRACK) break;
+        this.readMetaEvent(type, data, tick, isFirstTrack);
+        continue;
+      }
+      if (status === 0xF0 || status === 0xF7) {
+        // System exclusive: skipped
+        this.position += this.readVariableLength();
+        continue;
+      }
+      if (!(status & 0x80)) {
+        // Data byte without any status to run on
+        this.position++;
+        continue;
+      }
+
+      runningStatus = status;
+      const channel = status & 0x0F;
+
+      switch (status & 0xF0) {
+        case 0x80:
+          tracker.noteOff(tick, channel, this.readUInt8() & 0x7F);
+          this.position++;
+          break;
+        case 0x90:
+          tracker.noteOn(tick, channel, this.readUInt8() & 0x7F, this.readUInt8() & 0x7F);
+          break;
+        case 0xB0:
+          controls.controlChange(tick, channel, this.readUInt8() & 0x7F, this.readUInt8() & 0x7F);
+          break;
+        case 0xC0:
+          controls.program(tick, channel, this.readUInt8());
+          break;
+        case 0xE0: {
+          const lsb = this.readUInt8() & 0x7F;
+          const msb = this.readUInt8() & 0x7F;
+          controls.pitchBend(tick, channel, ((msb << 7) | lsb) - 8192);
+          break;
+        }
+        case 0xA0:
+          // Polyphonic key pressure
+          this.position += 2;
+          break;
+        case 0xD0:
+          // Channel pressure
+          this.position += 1;
+          break;
+      }
+    }
+
+    return { notes: tracker.finish(tick), channelEvents: controls.events };
+  }
+
+  private readMetaEvent(type: number, data: Uint8Array, tick: number, isFirstTrack: boolean): void {
+    switch (type) {
+      case META_TEMPO:
+        if (data.length >= 3) {
+          const microseconds = (data[0] << 16) | (data[1] << 8) | data[2];
+          if (microseconds > 0) this.tempoChanges.push({ tick, tempo: 60000000 / microseconds });
+        }
+        break;
+      case META_TIME_SIGNATURE:
+        if (data.length >= 2 && !this.timeSignature) {
+          this.timeSignature = { numerator: data[0], denominator: Math.pow(2, data[1]) };
+        }
+        break;
+      case META_TRACK_NAME:
+        // The first track's name is the song title
+        if (isFirstTrack && !this.metadata.title) {
+          this.metadata.title = decodeText(data);
+        }
+        break;
+      case META_COPYRIGHT:
+        if (!this.metadata.copyright) {
+          this.metadata.copyright = decodeText(data);
+        }
+        break;
+    }
+  }
+
+  private readVariableLength(): number {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = this.readUInt8();
+      value = (value << 7) | (byte & 0x7F);
+    } while (byte & 0x80 && this.position < this.data.length);
+    return value;
+  }
+
+  private readChunkId(): string {
+    const id = String.fromCharCode(...this.data.subarray(this.position, this.position + 4));
+    this.position += 4;
+    return id;
+  }
+
+  private readUInt8(): number {
+    return this.data[this.position++] ?? 0;
+  }
+
+  private readUInt16BE(): number {
+    const value = (this.data[this.position] << 8) | this.data[this.position + 1];
+    this.position += 2;
+    return value;
+  }
+
+  private readUInt32BE(): number {
+    const value = (this.data[this.position] << 24) |
+                  (this.data[this.position + 1] << 16) |
+                  (this.data[this.position + 2] << 8) |
+                  this.data[this.position + 3];
+    this.position += 4;
+    return value >>> 0; // Convert to unsigned
+  }
+}
+
+/**
+ * Decode meta event text: UTF-8 when valid, otherwise Shift_JIS as used by
+ * Japanese sequencers.
+ */
+function decodeText(data: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data).replace(/\0/g, '').trim();
+  } catch {
+    return decodeShiftJIS(data).replace(/\0/g, '').trim();
+  }
+}
+
+export function parseMIDI(arrayBuffer: ArrayBuffer): MMFData {
+  const parser = new MIDIParser(arrayBuffer);
+  return parser.parse();
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { writeMIDI, SMF_RESOLUTION } from './midi-writer';
+import { parseMIDI } from './midi-parser';
+import type { MMFData, MMFNote } from './mmf-parser';
+import { buildTempoMap } from './tempo-map';
+
+const MMF_RESOLUTION = 48;
+
+function song(notes: MMFNote[]): MMFData {
+  // 120 BPM, then 100 BPM from tick 192 (2000 ms)
+  const tempoMap = buildTempoMap([{ tick: 0, tempo: 120 }, { tick: 192, tempo: 100 }], MMF_RESOLUTION);
+  return {
+    metadata: { title: '着信メロディ', copyright: '(C) 2004 Example' },
+    notes,
+    channelEvents: [{ time: 0, channel: 2, type: 'program', value: 40 }],
+    duration: Math.max(...notes.map(note => note.time + note.duration)),
+    tempo: 120,
+    tempoMap,
+    resolution: MMF_RESOLUTION,
+    timeSignature: { numerator: 3, denominator: 4 },
+    voices: {},
+    audioEvents: [],
+    waves: {}
+  };
+}
+
+// Milliseconds rounded to the nearest tick at a constant tempo from a given point
+function quantize(ms: number, tempo: number, fromMs = 0): number {
+  const msPerTick = 60000 / tempo / SMF_RESOLUTION;
+  return fromMs + Math.round((ms - fromMs) / msPerTick) * msPerTick;
+}
+
+function trackIds(buffer: ArrayBuffer): string[] {
+  const view = new DataView(buffer);
+  const ids: string[] = [];
+  let position = 14;
+  while (position + 8 <= buffer.byteLength) {
+    ids.push(String.fromCharCode(...new Uint8Array(buffer, position, 4)));
+    position += 8 + view.getUint32(position + 4);
+  }
+  return ids;
+}
+
+describe('writeMIDI', () => {
+  const notes: MMFNote[] = [
+    { time: 100.3, note: 60, duration: 250.4, velocity: 100, channel: 0 },
+    { time: 733.9, note: 64, duration: 90.1, velocity: 80, channel: 0 },
+    { time: 501.7, note: 48, duration: 1000.2, velocity: 64, channel: 2 },
+    { time: 2101, note: 38, duration: 60.6, velocity: 127, channel: 9 }
+  ];
+  const buffer = writeMIDI(song(notes));
+  const parsed = parseMIDI(buffer);
+
+  it('writes a format 1 header with a conductor track and one track per channel', () => {
+    const view = new DataView(buffer);
+    expect(view.getUint16(8)).toBe(1);
+    expect(view.getUint16(10)).toBe(4);
+    expect(view.getUint16(12)).toBe(SMF_RESOLUTION);
+    expect(trackIds(buffer)).toEqual(['MTrk', 'MTrk', 'MTrk', 'MTrk']);
+  });
+
+  it('keeps the tempo changes', () => {
+    expect(parsed.tempo).toBe(120);
+    expect(parsed.tempoMap.map(segment => segment.tempo)).toEqual([120, 100]);
+    expect(parsed.tempoMap[1].time).toBeCloseTo(2000, 6);
+  });
+
+  it('quantizes note times and durations to ticks', () => {
+    const expected = notes
+      .map(note => {
+        // The tempo change falls on a tick, so notes after it quantize from there
+        const [tempo, fromMs] = note.time < 2000 ? [120, 0] : [100, 2000];
+        const start = quantize(note.time, tempo, fromMs);
+        const end = quantize(note.time + note.duration, tempo, fromMs);
+        return { ...note, time: start, duration: end - start };
+      })
+      .sort((a, b) => a.time - b.time);
+
+    expect(parsed.notes).toHaveLength(expected.length);
+    parsed.notes.forEach((note, i) => {
+      expect(note.channel).toBe(expected[i].channel);
+      expect(note.note).toBe(expected[i].note);
+      expect(note.velocity).toBe(expected[i].velocity);
+      expect(note.time).toBeCloseTo(expected[i].time, 6);
+      expect(note.duration).toBeCloseTo(expected[i].duration, 6);
+    });
+  });
+
+  it('writes the title as the track name and the copyright', () => {
+    expect(parsed.metadata.title).toBe('着信メロディ');
+    expect(parsed.metadata.copyright).toBe('(C) 2004 Example');
+  });
+
+  it('keeps the time signature and channel events', () => {
+    expect(parsed.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+    expect(parsed.channelEvents).toContainEqual({ time: 0, channel: 2, type: 'program', value: 40 });
+  });
+});
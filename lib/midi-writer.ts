@@ -0,0 +1,212 @@
+/**
+ * Standard MIDI File writer
+ * Converts parsed MMF data to a format 1 SMF: a conductor track with tempo and
+ * metadata, followed by one track per MIDI channel
+ */
+
+import type { MMFChannelEvent, MMFData } from './mmf-parser';
+import { msToTick } from './tempo-map';
+
+export const SMF_RESOLUTION = 480; // Ticks per quarter note written to the header
+
+const SMF_FORMAT = 1;
+const DEFAULT_NOTE_OFF_VELOCITY = 0x40;
+
+// Meta event types
+const META_COPYRIGHT = 0x02;
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2F;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+
+// Controller numbers for the parsed channel event types
+const CONTROLLERS: Partial<Record<MMFChannelEvent['type'], number>> = {
+  bankSelect: 0x00,
+  modulation: 0x01,
+  volume: 0x07,
+  pan: 0x0A,
+  expression: 0x0B,
+};
+const CC_DATA_ENTRY = 0x06;
+const CC_RPN_LSB = 0x64;
+const CC_RPN_MSB = 0x65;
+
+// Events at the same tick are written in this order so that a note can end and
+// restart on one tick, and controllers apply before the notes that follow them
+const ORDER_META = 0;
+const ORDER_NOTE_OFF = 1;
+const ORDER_CONTROL = 2;
+const ORDER_NOTE_ON = 3;
+
+interface TrackEvent {
+  tick: number;
+  order: number;
+  data: number[];
+}
+
+/**
+ * Write MMF data as a format 1 Standard MIDI File.
+ * Millisecond times are quantized to ticks through the song's tempo map.
+ */
+export function writeMIDI(mmfData: MMFData, resolution: number = SMF_RESOLUTION): ArrayBuffer {
+  const toTick = (ms: number) => Math.round(msToTick(mmfData.tempoMap, mmfData.resolution, ms) * resolution / mmfData.resolution);
+
+  const tracks: TrackEvent[][] = [conductorTrack(mmfData, resolution)];
+
+  const channels = new Map<number, TrackEvent[]>();
+  const channelTrack = (channel: number) => {
+    let events = channels.get(channel);
+    if (!events) {
+      events = [];
+      channels.set(channel, events);
+    }
+    return events;
+  };
+
+  for (const event of mmfData.channelEvents) {
+    const tick = toTick(event.time);
+    for (const data of channelEventMessages(event)) {
+      channelTrack(event.channel).push({ tick, order: ORDER_CONTROL, data });
+    }
+  }
+
+  for (const note of mmfData.notes) {
+    const status = note.channel & 0x0F;
+    const startTick = toTick(note.time);
+    // Keep every note at least one tick long so its on and off stay paired
+    const endTick = Math.max(startTick + 1, toTick(note.time + note.duration));
+    const events = channelTrack(note.channel);
+    events.push({ tick: startTick, order: ORDER_NOTE_ON, data: [0x90 | status, note.note, Math.max(1, note.velocity)] });
+    events.push({ tick: endTick, order: ORDER_NOTE_OFF, data: [0x80 | status, note.note, DEFAULT_NOTE_OFF_VELOCITY] });
+  }
+
+  for (const channel of [...channels.keys()].sort((a, b) => a - b)) {
+    tracks.push(channels.get(channel)!);
+  }
+
+  const bytes: number[] = [];
+  writeChunkHeader(bytes, 'MThd', 6);
+  writeUInt16(bytes, SMF_FORMAT);
+  writeUInt16(bytes, tracks.length);
+  writeUInt16(bytes, resolution);
+
+  for (const track of tracks) {
+    const data = encodeTrack(track);
+    writeChunkHeader(bytes, 'MTrk', data.length);
+    for (const byte of data) bytes.push(byte);
+  }
+
+  return new Uint8Array(bytes).buffer;
+}
+
+/**
+ * Conductor track: track name, copyright, time signature and every tempo change.
+ */
+function conductorTrack(mmfData: MMFData, resolution: number): TrackEvent[] {
+  const events: TrackEvent[] = [];
+  const { metadata, timeSignature } = mmfData;
+
+  if (metadata.title) {
+    events.push({ tick: 0, order: ORDER_META, data: metaEvent(META_TRACK_NAME, encodeText(metadata.title)) });
+  }
+  if (metadata.copyright) {
+    events.push({ tick: 0, order: ORDER_META, data: metaEvent(META_COPYRIGHT, encodeText(metadata.copyright)) });
+  }
+
+  // Denominator is stored as a power of two; 24 clocks per click, 8 32nds per quarter
+  const denominator = Math.max(0, Math.round(Math.log2(timeSignature.denominator)));
+  events.push({
+    tick: 0,
+    order: ORDER_META,
+    data: metaEvent(META_TIME_SIGNATURE, [timeSignature.numerator, denominator, 24, 8])
+  });
+
+  for (const segment of mmfData.tempoMap) {
+    const microseconds = Math.round(60000000 / segment.tempo);
+    events.push({
+      tick: Math.round(segment.tick * resolution / mmfData.resolution),
+      order: ORDER_META,
+      data: metaEvent(META_TEMPO, [(microseconds >> 16) & 0xFF, (microseconds >> 8) & 0xFF, microseconds & 0xFF])
+    });
+  }
+
+  return events;
+}
+
+/**
+ * MIDI messages for a parsed channel event. SMAF Mobile Standard uses the same
+ * channel messages.
+ */
+export function channelEventMessages(event: MMFChannelEvent): number[][] {
+  const channel = event.channel & 0x0F;
+  const value = event.value & 0x7F;
+
+  switch (event.type) {
+    case 'program':
+      return [[0xC0 | channel, value]];
+    case 'pitchBend': {
+      const bend = Math.max(0, Math.min(0x3FFF, event.value + 8192));
+      return [[0xE0 | channel, bend & 0x7F, bend >> 7]];
+    }
+    case 'pitchBendRange':
+      // RPN 0 with data entry, then RPN null so later data entry is ignored
+      return [
+        [0xB0 | channel, CC_RPN_MSB, 0],
+        [0xB0 | channel, CC_RPN_LSB, 0],
+        [0xB0 | channel, CC_DATA_ENTRY, value],
+        [0xB0 | channel, CC_RPN_MSB, 0x7F],
+        [0xB0 | channel, CC_RPN_LSB, 0x7F]
+      ];
+    case 'control':
+      return event.controller === undefined ? [] : [[0xB0 | channel, event.controller & 0x7F, value]];
+    default:
+      return [[0xB0 | channel, CONTROLLERS[event.type]!, value]];
+  }
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xFF, type, ...variableLength(data.length), ...data];
+}
+
+// Meta text is written as UTF-8, which current DAWs read
+function encodeText(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+/**
+ * Sort a track's events and encode them with delta times and an end-of-track event.
+ */
+function encodeTrack(events: TrackEvent[]): number[] {
+  const sorted = events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.tick - b.event.tick || a.event.order - b.event.order || a.index - b.index)
+    .map(({ event }) => event);
+
+  const bytes: number[] = [];
+  let lastTick = 0;
+  for (const event of sorted) {
+    bytes.push(...variableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  bytes.push(0x00, ...metaEvent(META_END_OF_TRACK, []));
+  return bytes;
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7F];
+  value >>>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7F) | 0x80);
+    value >>>= 7;
+  }
+  return bytes;
+}
+
+function writeChunkHeader(bytes: number[], id: string, length: number): void {
+  for (let i = 0; i < 4; i++) bytes.push(id.charCodeAt(i));
+  bytes.push((length >>> 24) & 0xFF, (length >> 16) & 0xFF, (length >> 8) & 0xFF, length & 0xFF);
+}
+
+function writeUInt16(bytes: number[], value: number): void {
+  bytes.push((value >> 8) & 0xFF, value & 0xFF);
+}
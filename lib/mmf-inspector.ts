@@ -0,0 +1,146 @@
+/**
+ * MMF inspector
+ * Summaries for tools that examine files without playing them: per-channel
+ * statistics of a parsed song and the chunk tree of the raw file
+ */
+
+import {
+  AUDIO_TRACK_HEADER_SIZE,
+  channelStatusSize,
+  isAudioTrackId,
+  isScoreTrackId,
+  MMFData,
+  SCORE_TRACK_HEADER_SIZE,
+  voiceKey
+} from './mmf-parser';
+import { CHUNK_HEADER_SIZE, MMF_HEADER_SIZE, readId, readUInt32BE } from './smaf-chunk';
+
+export interface ChannelStats {
+  channel: number;          // MIDI channel (0-based)
+  notes: number;
+  lowestNote?: number;      // Undefined when the channel has no notes
+  highestNote?: number;
+  averageVelocity?: number;
+  programs: number[];       // Programs the notes play with, in order of first use
+  embeddedVoices: number;   // How many of those programs use a voice defined in the file
+}
+
+export interface SongStats {
+  notes: number;
+  channels: ChannelStats[]; // Channels with notes or channel events, in channel order
+  tempoChanges: number;     // Tempo changes after the initial tempo
+  audioEvents: number;
+  waves: number;
+}
+
+export interface ChunkNode {
+  id: string;               // Raw chunk ID (format with formatChunkId for display)
+  offset: number;           // Offset of the chunk header
+  size: number;             // Declared data size
+  children: ChunkNode[];    // Sub-chunks of tracks and optional data
+}
+
+/** Note, program and voice counts per channel. */
+export function getSongStats(data: MMFData): SongStats {
+  const channels = new Map<number, ChannelStats & { velocityTotal: number }>();
+  const channelStats = (channel: number) => {
+    let stats = channels.get(channel);
+    if (!stats) {
+      stats = { channel, notes: 0, programs: [], embeddedVoices: 0, velocityTotal: 0 };
+      channels.set(channel, stats);
+    }
+    return stats;
+  };
+
+  // Walk the program changes alongside the notes, as playback does
+  const programs = new Map<number, number>();
+  let eventIndex = 0;
+  for (const note of data.notes) {
+    while (eventIndex < data.channelEvents.length && data.channelEvents[eventIndex].time <= note.time) {
+      const event = data.channelEvents[eventIndex++];
+      if (event.type === 'program') programs.set(event.channel, event.value);
+    }
+
+    const stats = channelStats(note.channel);
+    const program = programs.get(note.channel) ?? 0;
+    stats.notes++;
+    stats.velocityTotal += note.velocity;
+    stats.lowestNote = Math.min(stats.lowestNote ?? note.note, note.note);
+    stats.highestNote = Math.max(stats.highestNote ?? note.note, note.note);
+    if (!stats.programs.includes(program)) {
+      stats.programs.push(program);
+      if (data.voices[voiceKey(note.channel, program)]) stats.embeddedVoices++;
+    }
+  }
+  for (const event of data.channelEvents) channelStats(event.channel);
+
+  return {
+    notes: data.notes.length,
+    channels: [...channels.values()]
+      .sort((a, b) => a.channel - b.channel)
+      .map(({ velocityTotal, ...stats }) => ({
+        ...stats,
+        averageVelocity: stats.notes > 0 ? velocityTotal / stats.notes : undefined
+      })),
+    tempoChanges: data.tempoMap.length - 1,
+    audioEvents: data.audioEvents.length,
+    waves: Object.keys(data.waves).length
+  };
+}
+
+/**
+ * Chunks of an MMF file with the sub-chunks of score tracks, audio tracks and
+ * optional data. Reading stops at a garbage chunk ID or a chunk that runs past
+ * its parent, which is included as the last node.
+ */
+export function readChunkTree(buffer: ArrayBuffer): ChunkNode[] {
+  const data = new Uint8Array(buffer);
+  if (data.length < MMF_HEADER_SIZE || readId(data, 0) !== 'MMMD') {
+    throw new Error('Invalid MMF file: MMMD header not found');
+  }
+
+  const end = Math.min(MMF_HEADER_SIZE + readUInt32BE(data, 4), data.length);
+  const chunks = readChunks(data, MMF_HEADER_SIZE, end);
+  for (const chunk of chunks) {
+    const dataStart = chunk.offset + CHUNK_HEADER_SIZE;
+    const dataEnd = Math.min(dataStart + chunk.size, end);
+    const childrenStart = subChunkStart(data, chunk.id, dataStart, dataEnd);
+    if (childrenStart !== null) {
+      chunk.children = readChunks(data, childrenStart, dataEnd);
+    }
+  }
+  return chunks;
+}
+
+/** Where the sub-chunks of a chunk begin, or null for chunks without any. */
+function subChunkStart(data: Uint8Array, id: string, start: number, end: number): number | null {
+  let position: number;
+  if (isScoreTrackId(id)) {
+    // Channel status: 2 bytes for Handyphone Standard, 16 for Mobile Standard
+    if (start + SCORE_TRACK_HEADER_SIZE > end) return null;
+    position = start + SCORE_TRACK_HEADER_SIZE + channelStatusSize(data[start]);
+  } else if (isAudioTrackId(id)) {
+    position = start + AUDIO_TRACK_HEADER_SIZE;
+  } else if (id === 'OPDA') {
+    position = start;
+  } else {
+    return null;
+  }
+
+  // Older score tracks hold a bare event stream rather than sub-chunks
+  return position + CHUNK_HEADER_SIZE <= end && /^[A-Za-z]{3}/.test(readId(data, position)) ? position : null;
+}
+
+function readChunks(data: Uint8Array, start: number, end: number): ChunkNode[] {
+  const chunks: ChunkNode[] = [];
+  let position = start;
+  while (end - position >= CHUNK_HEADER_SIZE) {
+    const id = readId(data, position);
+    if (!/^[\x20-\x7E]{3}/.test(id)) break;
+
+    const size = readUInt32BE(data, position + 4);
+    chunks.push({ id, offset: position, size, children: [] });
+    position += CHUNK_HEADER_SIZE + size;
+  }
+  return chunks;
+}
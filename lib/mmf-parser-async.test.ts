@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { validateAndParseMMFAsync } from './mmf-parser-async';
+import { parseMMF, type MMFData } from './mmf-parser';
+import { writeMMF } from './mmf-writer';
+
+function song(): ArrayBuffer {
+  const data: MMFData = {
+    metadata: { title: '着信メロディ' },
+    notes: [
+      { time: 0, note: 60, duration: 500, velocity: 100, channel: 0 },
+      { time: 500, note: 64, duration: 500, velocity: 100, channel: 0 }
+    ],
+    channelEvents: [],
+    duration: 1000,
+    tempo: 120,
+    tempoMap: [{ tick: 0, time: 0, tempo: 120 }],
+    resolution: 48,
+    timeSignature: { numerator: 4, denominator: 4 },
+    voices: {},
+    audioEvents: [],
+    waves: {}
+  };
+  return writeMMF(data);
+}
+
+// Without Worker (as in Node) requests run inline
+describe('validateAndParseMMFAsync', () => {
+  it('returns the report and the parsed song from one pass', async () => {
+    const buffer = song();
+    const progress: number[] = [];
+    const result = await validateAndParseMMFAsync(buffer, { onProgress: (p) => progress.push(p) });
+
+    expect(result.report.valid).toBe(true);
+    expect(result.data).toEqual(parseMMF(buffer));
+    expect(result.error).toBeUndefined();
+    expect(progress.length).toBeGreaterThan(0);
+    expect(buffer.byteLength).toBeGreaterThan(0);
+  });
+
+  it('decodes metadata in the requested encoding', async () => {
+    const result = await validateAndParseMMFAsync(song(), { encoding: 'euc-kr' });
+    expect(result.data?.metadata.encoding).toBe('euc-kr');
+  });
+
+  it('resolves with the parse error for files that are not MMF', async () => {
+    const buffer = new TextEncoder().encode('not a ringtone').buffer;
+    const result = await validateAndParseMMFAsync(buffer);
+
+    expect(result.data).toBeNull();
+    expect(result.error).toBe('MMMD header not found');
+    expect(result.report.valid).toBe(false);
+  });
+
+  it('leaves the buffer intact when a worker is aborted', async () => {
+    // A worker that takes what it is sent and never answers
+    class StalledWorker {
+      onmessage = null;
+      onerror = null;
+      postMessage(message: unknown, transfer: Transferable[]) {
+        structuredClone(message, { transfer });
+      }
+      terminate() {}
+    }
+    vi.stubGlobal('Worker', StalledWorker);
+
+    try {
+      const buffer = song();
+      const controller = new AbortController();
+      const result = validateAndParseMMFAsync(buffer, { signal: controller.signal });
+      controller.abort();
+
+      await expect(result).rejects.toThrow();
+      expect(new Uint8Array(buffer).subarray(0, 4)).toEqual(new TextEncoder().encode('MMMD'));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
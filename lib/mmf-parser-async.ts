@@ -0,0 +1,138 @@
+/**
+ * Background MMF parsing
+ * Runs parseMMF and validateMMF in a Web Worker so long files don't block the
+ * page. The worker is sent a copy of the file buffer, so the caller's buffer
+ * stays usable even when a request is aborted or fails. Where workers aren't
+ * available (e.g. Node), the work runs inline instead.
+ */
+
+import { MMFData, MMFParserOptions, parseMMF } from './mmf-parser';
+import { validateAndParseMMF, ValidatedMMF, validateMMF, ValidationReport } from './mmf-validator';
+
+export interface AsyncParseOptions {
+  encoding?: MMFParserOptions['encoding'];
+  onProgress?: (progress: number) => void;  // 0-1
+  signal?: AbortSignal;  // Aborting terminates the worker and rejects with the abort reason
+}
+
+// Messages between the page and the worker
+export interface WorkerRequest {
+  type: 'parse' | 'validate' | 'validateAndParse';
+  buffer: ArrayBuffer;
+  encoding?: MMFParserOptions['encoding'];
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'parsed'; data: MMFData }
+  | { type: 'validated'; report: ValidationReport }
+  | { type: 'validatedAndParsed'; result: ValidatedMMF }
+  | { type: 'error'; message: string };
+
+/** Parse an MMF file in a worker. */
+export async function parseMMFAsync(arrayBuffer: ArrayBuffer, options: AsyncParseOptions = {}): Promise<MMFData> {
+  const response = await runRequest({ type: 'parse', buffer: arrayBuffer, encoding: options.encoding }, options);
+  if (response.type !== 'parsed') throw new Error('Unexpected worker response');
+  return response.data;
+}
+
+/** Validate an MMF file in a worker. */
+export async function validateMMFAsync(arrayBuffer: ArrayBuffer, options: AsyncParseOptions = {}): Promise<ValidationReport> {
+  const response = await runRequest({ type: 'validate', buffer: arrayBuffer, encoding: options.encoding }, options);
+  if (response.type !== 'validated') throw new Error('Unexpected worker response');
+  return response.report;
+}
+
+/**
+ * Validate an MMF file and parse it in the same pass, in a worker. A file
+ * that can't be parsed resolves with null data rather than rejecting.
+ */
+export async function validateAndParseMMFAsync(arrayBuffer: ArrayBuffer, options: AsyncParseOptions = {}): Promise<ValidatedMMF> {
+  const response = await runRequest({ type: 'validateAndParse', buffer: arrayBuffer, encoding: options.encoding }, options);
+  if (response.type !== 'validatedAndParsed') throw new Error('Unexpected worker response');
+  return response.result;
+}
+
+/**
+ * Carry out a request, reporting progress through the callback. Used by the
+ * worker and by the inline fallback.
+ */
+export function handleWorkerRequest(request: WorkerRequest, onProgress: (progress: number) => void): WorkerResponse {
+  const { buffer, encoding } = request;
+  try {
+    switch (request.type) {
+      case 'validate':
+        return { type: 'validated', report: validateMMF(buffer, { encoding, onProgress }) };
+      case 'validateAndParse':
+        return { type: 'validatedAndParsed', result: validateAndParseMMF(buffer, { encoding, onProgress }) };
+      default:
+        return { type: 'parsed', data: parseMMF(buffer, { encoding, onProgress }) };
+    }
+  } catch (error) {
+    return { type: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Buffers in a response that can be transferred instead of copied. */
+export function getTransferables(response: WorkerResponse): ArrayBuffer[] {
+  const data = response.type === 'parsed' ? response.data
+    : response.type === 'validatedAndParsed' ? response.result.data
+    : null;
+  if (!data) return [];
+
+  const buffers = new Set<ArrayBuffer>();
+  for (const wave of Object.values(data.waves)) {
+    for (const samples of wave.samples) buffers.add(samples.buffer as ArrayBuffer);
+  }
+  return [...buffers];
+}
+
+function runRequest(request: WorkerRequest, { onProgress, signal }: AsyncParseOptions): Promise<WorkerResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const settle = (response: WorkerResponse) => {
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+      } else {
+        resolve(response);
+      }
+    };
+
+    if (typeof Worker === 'undefined') {
+      settle(handleWorkerRequest(request, (progress) => onProgress?.(progress)));
+      return;
+    }
+
+    const worker = new Worker(new URL('./mmf-worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.type === 'progress') {
+        onProgress?.(event.data.progress);
+        return;
+      }
+      finish();
+      settle(event.data);
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'MMF parser worker failed'));
+    };
+
+    // Transfer a copy: a terminated worker never hands its buffer back
+    const buffer = request.buffer.slice(0);
+    worker.postMessage({ ...request, buffer }, [buffer]);
+  });
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  channelStatusSize,
+  FORMAT_HANDYPHONE_STANDARD,
+  FORMAT_MOBILE_STANDARD,
+  parseMMF,
+  waveKey
+} from './mmf-parser';
+
+/** A file with one score track holding a single Mtsq sub-chunk. */
+function scoreTrackFile(formatType: number, timeBaseD: number, timeBaseG: number, sequence: number[]): ArrayBuffer {
+  const mtsq = chunk('Mtsq', sequence);
+  const status = new Array<number>(channelStatusSize(formatType)).fill(0);
+  return file(chunk('MTR\x01', [formatType, 0x00, timeBaseD, timeBaseG, ...status, ...mtsq]));
+}
+
+/** An audio track of 8-bit 8 kHz PCM that plays wave 1 once. */
+function audioTrack(number: number, sample: number): number[] {
+  const sequence = chunk('Atsq', [0x00, 0x01, 0x05]);  // Channel 0, wave 1; gate 5
+  const wave = chunk('Awa\x01', new Array<number>(80).fill(sample));
+  return chunk(`ATR${String.fromCharCode(number)}`, [0x00, 0x00, 0x01, 0x20, 0x02, 0x02, ...sequence, ...wave]);
+}
+
+function file(...chunks: number[][]): ArrayBuffer {
+  return new Uint8Array(chunk('MMMD', [...chunks.flat(), 0x00, 0x00])).buffer;
+}
+
+function chunk(id: string, data: number[]): number[] {
+  const size = data.length;
+  return [
+    ...Array.from(id, char => char.charCodeAt(0)),
+    (size >>> 24) & 0xFF, (size >> 16) & 0xFF, (size >> 8) & 0xFF, size & 0xFF,
+    ...data
+  ];
+}
+
+describe('parseMMF', () => {
+  it('decodes Handyphone Standard notes with octave shift and gate time', () => {
+    // TimeBase_D 4 ms, TimeBase_G 2 ms
+    const song = parseMMF(scoreTrackFile(FORMAT_HANDYPHONE_STANDARD, 0x02, 0x01, [
+      0x00, 0x11, 0x32,         // Channel 0, block 1, C; gate 50
+      0x32, 0x00, 0x32, 0x01,   // After 50: octave shift +1
+      0x00, 0x55, 0x81, 0x00,   // Channel 1, block 1, E; two-byte gate 256
+      0x00, 0x00, 0x1C          // Channel 0 pitch bend, short form
+    ]));
+
+    expect(song.notes).toEqual([
+      { time: 0, note: 48, duration: 100, velocity: 100, channel: 0 },
+      { time: 200, note: 52, duration: 512, velocity: 100, channel: 1 }
+    ]);
+    expect(song.channelEvents).toContainEqual({ time: 200, channel: 0, type: 'pitchBend', value: 4096 });
+    expect(song.duration).toBe(712);
+  });
+
+  it('applies the octave shift to later notes on its channel', () => {
+    const song = parseMMF(scoreTrackFile(FORMAT_HANDYPHONE_STANDARD, 0x02, 0x02, [
+      0x00, 0x00, 0x32, 0x81,   // Channel 0 octave shift -1
+      0x00, 0x11, 0x0A,         // Channel 0, block 1, C
+      0x0A, 0x00, 0x32, 0x02,   // Octave shift +2
+      0x00, 0x11, 0x0A
+    ]));
+
+    expect(song.notes.map(note => note.note)).toEqual([36, 72]);
+  });
+
+  it('decodes Mobile Standard notes with velocity and gate time', () => {
+    // TimeBase_D 10 ms, TimeBase_G 4 ms
+    const song = parseMMF(scoreTrackFile(FORMAT_MOBILE_STANDARD, 0x10, 0x02, [
+      0x00, 0x90, 60, 100, 25,          // Note with velocity; gate 25
+      0x81, 0x00, 0x83, 64, 10,         // After 128: note without velocity on channel 3
+      0x00, 0xE3, 0x00, 0x50,           // Pitch bend
+      0x00, 0xFF, 0x2F, 0x00            // End of sequence
+    ]));
+
+    expect(song.notes).toEqual([
+      { time: 0, note: 60, duration: 100, velocity: 100, channel: 0 },
+      { time: 1280, note: 64, duration: 40, velocity: 64, channel: 3 }
+    ]);
+    expect(song.channelEvents).toContainEqual({ time: 1280, channel: 3, type: 'pitchBend', value: 2048 });
+    expect(song.duration).toBe(1320);
+  });
+
+  it('times events by the time base tables', () => {
+    // TimeBase_D codes 0x00-0x03 and 0x10-0x13: 1, 2, 4, 5, 10, 20, 40 and 50 ms
+    const codes: Array<[number, number]> = [
+      [0x00, 1], [0x01, 2], [0x02, 4], [0x03, 5], [0x10, 10], [0x11, 20], [0x12, 40], [0x13, 50]
+    ];
+    for (const [code, ms] of codes) {
+      const song = parseMMF(scoreTrackFile(FORMAT_MOBILE_STANDARD, code, code, [
+        0x64, 0x80, 60, 0x64   // After 100: note with gate 100
+      ]));
+      expect(song.notes[0], `code 0x${code.toString(16)}`).toMatchObject({ time: 100 * ms, duration: 100 * ms });
+    }
+  });
+
+  it('keeps waves with the same number in different audio tracks apart', () => {
+    const song = parseMMF(file(audioTrack(0, 0x40), audioTrack(1, 0xC0)));
+
+    expect(song.audioEvents.map(event => [event.track, event.wave])).toEqual([[0, 1], [1, 1]]);
+    expect(song.waves[waveKey(0, 1)].samples[0][0]).toBe(0.5);
+    expect(song.waves[waveKey(1, 1)].samples[0][0]).toBe(-0.5);
+  });
+});
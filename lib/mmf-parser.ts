@@ -3,8 +3,58 @@
  * Parses MMF/SMAF format binary data used in mobile phone ringtones
  */
 
-const DEFAULT_NOTE_DURATION_MS = 250; // Default duration when note off events are not tracked
+import { buildTempoMap, tickToMs, TempoChange } from './tempo-map';
+import { decodeContentInfo, decodeOptionalData, TextEncoding } from './content-info';
+import { decodeWave, parseWaveFormat } from './wave-decoder';
+import { decodeShiftJIS } from './shift-jis';
+import { CHUNK_HEADER_SIZE, readUInt32BE } from './smaf-chunk';
+
 const DEFAULT_TPQN = 24; // Default ticks per quarter note
+const MS_PER_QUARTER_NOTE = 500; // Quarter note length at the default 120 BPM
+const PROGRESS_STEPS = 100; // Progress is reported about this many times per file
+
+// Track header layout
+export const SCORE_TRACK_HEADER_SIZE = 4;    // Format type, sequence type, TimeBase_D, TimeBase_G
+export const AUDIO_TRACK_HEADER_SIZE = 6;    // As above plus wave type and base bit
+
+// Score track format types
+export const FORMAT_HANDYPHONE_STANDARD = 0x00;
+export const FORMAT_MOBILE_COMPRESSED = 0x01;
+export const FORMAT_MOBILE_STANDARD = 0x02;
+
+// TimeBase_D / TimeBase_G codes to milliseconds per tick
+export const TIMEBASE_MS: Record<number, number> = {
+  0x00: 1,
+  0x01: 2,
+  0x02: 4,
+  0x03: 5,
+  0x10: 10,
+  0x11: 20,
+  0x12: 40,
+  0x13: 50,
+};
+
+// YAMAHA MA-3 voice exclusive header (manufacturer, device, voice message)
+export const VOICE_EXCLUSIVE_HEADER = [0x43, 0x79, 0x06, 0x7F, 0x01];
+export const VOICE_OPERATOR_SIZE = 7;
+
+// Registered parameter numbers
+const RPN_PITCH_BEND_RANGE = 0x0000;
+const RPN_NULL = 0x3FFF;
+
+const HANDYPHONE_CHANNELS = 4;
+const HANDYPHONE_BASE_OCTAVE = 3; // Octave block 0 starts at C (MIDI 36)
+// Handyphone Standard long-form control types
+const HANDYPHONE_PROGRAM_CHANGE = 0x00;
+const HANDYPHONE_BANK_SELECT = 0x01;
+const HANDYPHONE_OCTAVE_SHIFT = 0x02;
+const HANDYPHONE_MODULATION = 0x03;
+const HANDYPHONE_PITCH_BEND = 0x04;
+const HANDYPHONE_VOLUME = 0x07;
+const HANDYPHONE_PAN = 0x0A;
+const HANDYPHONE_EXPRESSION = 0x0B;
+const HANDYPHONE_VELOCITY = 100; // Handyphone Standard notes carry no velocity
+const MOBILE_DEFAULT_VELOCITY = 64; // Velocity for Mobile Standard 0x8n notes
 
 export interface MMFNote {
   time: number;        // Time in milliseconds
@@ -14,18 +64,122 @@ export interface MMFNote {
   channel: number;     // MIDI channel
 }
 
+export type MMFChannelEventType =
+  | 'program'         // Program change (0-127)
+  | 'bankSelect'      // Bank select MSB (0-127)
+  | 'volume'          // CC7 (0-127)
+  | 'expression'      // CC11 (0-127)
+  | 'pan'             // CC10 (0-127, 64 = center)
+  | 'modulation'      // CC1 (0-127)
+  | 'pitchBend'       // Pitch bend (-8192 to 8191)
+  | 'pitchBendRange'  // RPN 0 (semitones)
+  | 'control';        // Any other control change
+
+export interface MMFChannelEvent {
+  time: number;        // Time in milliseconds
+  channel: number;     // MIDI channel
+  type: MMFChannelEventType;
+  value: number;
+  controller?: number; // Controller number for 'control' events
+}
+
+export interface MMFOperator {
+  multiplier: number;    // Frequency multiple (0 = x0.5, 1-15)
+  detune: number;        // Fine detune (0-7)
+  totalLevel: number;    // Attenuation in 0.75 dB steps (0-63)
+  keyScaleLevel: number; // Level key scaling (0-3)
+  attackRate: number;    // Envelope rates (0-15, 15 = fastest)
+  decayRate: number;
+  sustainLevel: number;  // Sustain attenuation in 3 dB steps (0-15)
+  sustainRate: number;   // Rate of the decay that follows the sustain level when not held
+  releaseRate: number;
+  sustain: boolean;      // Hold the sustain level until note off
+  ignoreKeyOff: boolean; // Run the envelope to its end regardless of note off
+  feedback: number;      // Self-modulation level (0-7)
+  waveform: number;      // Wave select
+  vibrato: boolean;      // Follow the LFO pitch modulation
+  vibratoDepth: number;  // 0-3
+  tremolo: boolean;      // Follow the LFO amplitude modulation
+  tremoloDepth: number;  // 0-3
+}
+
+export interface MMFVoice {
+  bank: number;          // Bank select MSB
+  program: number;       // Program number (0-127)
+  drumNote: number;      // Key played for drum voices
+  panpot: number;        // Voice pan (0-31, 15 = center)
+  lfo: number;           // LFO frequency (0-3)
+  pitchEnvelope: boolean;
+  algorithm: number;     // Operator connection (0-1: 2-op, 2-7: 4-op)
+  operators: MMFOperator[];
+}
+
 export interface MMFMetadata {
   title?: string;
+  artist?: string;
   composer?: string;
   arranger?: string;
+  lyricist?: string;
   copyright?: string;
+  managementInfo?: string;
+  createdDate?: string;    // As written in the file (usually YYYYMMDD)
+  modifiedDate?: string;
+  editStatus?: string;
+  vendor?: string;
+  carrier?: string;
+  url?: string;
+  encoding?: TextEncoding; // Encoding the text fields were decoded with
 }
 
 export interface MMFData {
   metadata: MMFMetadata;
   notes: MMFNote[];
+  channelEvents: MMFChannelEvent[];  // Program, controller and pitch bend changes in time order
   duration: number;    // Total duration in milliseconds
-  tempo: number;       // Tempo in BPM
+  tempo: number;       // Initial tempo in BPM
+  tempoMap: MMFTempoSegment[];  // Tempo segments in ascending tick order
+  resolution: number;  // Ticks per quarter note used by tempoMap
+  timeSignature: MMFTimeSignature;
+  voices: Record<string, MMFVoice>;  // Embedded voices keyed by voiceKey(channel, program)
+  audioEvents: MMFAudioEvent[];      // Wave playback events from audio tracks
+  waves: Record<string, MMFWave>;    // Decoded waves keyed by waveKey(track, wave)
+}
+
+export interface MMFAudioEvent {
+  time: number;        // Start time in milliseconds
+  duration: number;    // Playback length in milliseconds
+  track: number;       // Audio track index, in file order
+  wave: number;        // Wave number within the track
+  channel: number;     // Audio channel
+}
+
+export interface MMFWave {
+  sampleRate: number;
+  samples: Float32Array[];  // Decoded PCM (-1..1), one array per channel
+}
+
+export interface MMFTimeSignature {
+  numerator: number;
+  denominator: number;
+}
+
+export interface MMFLoop {
+  start: number;       // Loop start in milliseconds
+  end: number;         // Loop end in milliseconds
+}
+
+export type MMFIssueSeverity = 'error' | 'warning';
+
+export interface MMFIssue {
+  severity: MMFIssueSeverity;
+  offset: number;      // Byte offset in the file
+  message: string;
+}
+
+export interface MMFTempoSegment {
+  tick: number;        // Start position in ticks
+  time: number;        // Start position in milliseconds
+  tempo: number;       // Tempo in BPM from this position on
 }
 
 interface ChunkInfo {
@@ -34,12 +188,325 @@ interface ChunkInfo {
   offset: number;
 }
 
+interface ScoreTrackHeader {
+  offset: number;       // Start of the track chunk's data, for issue reports
+  formatType: number;
+  sequenceType: number;
+  msPerTickD?: number;  // Milliseconds per duration tick (undefined for unknown codes)
+  msPerTickG?: number;  // Milliseconds per gate time tick
+}
+
+interface AudioTrackData {
+  events: MMFAudioEvent[];  // Time and duration in ticks until the tempo map is applied
+  resolution: number;       // Ticks per quarter note
+  waves: Record<number, MMFWave>;  // Keyed by wave number
+}
+
+interface SequenceData {
+  notes: MMFNote[];     // Time and duration in ticks until the tempo map is applied
+  channelEvents: MMFChannelEvent[];  // Time in ticks until the tempo map is applied
+  voiceDefinitions: MMFVoice[];      // Voices defined by exclusive messages
+}
+
+interface TrackData extends SequenceData {
+  tempoChanges: TempoChange[];
+  resolution: number;   // Ticks per quarter note
+}
+
+/**
+ * Pairs note-on/note-off events per channel and key and resolves overlapping
+ * gate-time notes, so every emitted note carries its real sounding length.
+ */
+export class NoteTracker {
+  readonly notes: MMFNote[] = [];
+  // Notes waiting for a note off, oldest first, keyed by channel and note number
+  private open = new Map<number, MMFNote[]>();
+  // Most recent gate-time note per channel and note number
+  private gated = new Map<number, MMFNote>();
+
+  noteOn(time: number, channel: number, note: number, velocity: number): void {
+    // A note on with zero velocity is a note off
+    if (velocity === 0) {
+      this.noteOff(time, channel, note);
+      return;
+    }
+
+    const entry: MMFNote = { time, note, duration: 0, velocity, channel };
+    const key = channel * 128 + note;
+    const pending = this.open.get(key);
+    if (pending) {
+      pending.push(entry);
+    } else {
+      this.open.set(key, [entry]);
+    }
+    this.notes.push(entry);
+  }
+
+  noteOff(time: number, channel: number, note: number): void {
+    // Overlapping same-pitch notes are released first in, first out
+    const entry = this.open.get(channel * 128 + note)?.shift();
+    if (entry) {
+      entry.duration = time - entry.time;
+    }
+  }
+
+  gatedNote(time: number, channel: number, note: number, velocity: number, gateTime: number): void {
+    if (velocity === 0 || gateTime <= 0) return;
+
+    // Retriggering a key that is still sounding cuts the previous note short
+    const key = channel * 128 + note;
+    const previous = this.gated.get(key);
+    if (previous && previous.time + previous.duration > time) {
+      previous.duration = time - previous.time;
+      if (previous.duration <= 0) {
+        this.notes.splice(this.notes.lastIndexOf(previous), 1);
+      }
+    }
+
+    const entry: MMFNote = { time, note, duration: gateTime, velocity, channel };
+    this.gated.set(key, entry);
+    this.notes.push(entry);
+  }
+
+  /** Close notes still waiting for a note off at the end of the track. */
+  finish(endTime: number): MMFNote[] {
+    for (const pending of this.open.values()) {
+      for (const entry of pending) {
+        entry.duration = Math.max(0, endTime - entry.time);
+      }
+    }
+    this.open.clear();
+    this.gated.clear();
+    return this.notes;
+  }
+}
+
+/**
+ * Turns MIDI-style controller, program and pitch bend messages into channel
+ * events, resolving RPN data entry into pitch bend range changes.
+ */
+export class ChannelEventTracker {
+  readonly events: MMFChannelEvent[] = [];
+  // Selected RPN per channel ((MSB << 7) | LSB), -1 while an NRPN is selected
+  private rpn = new Map<number, number>();
+
+  program(time: number, channel: number, program: number): void {
+    this.events.push({ time, channel, type: 'program', value: program & 0x7F });
+  }
+
+  pitchBend(time: number, channel: number, value: number): void {
+    this.events.push({ time, channel, type: 'pitchBend', value });
+  }
+
+  controlChange(time: number, channel: number, controller: number, value: number): void {
+    const selected = this.rpn.get(channel) ?? RPN_NULL;
+
+    switch (controller) {
+      case 0:
+        this.events.push({ time, channel, type: 'bankSelect', value });
+        break;
+      case 1:
+        this.events.push({ time, channel, type: 'modulation', value });
+        break;
+      case 7:
+        this.events.push({ time, channel, type: 'volume', value });
+        break;
+      case 10:
+        this.events.push({ time, channel, type: 'pan', value });
+        break;
+      case 11:
+        this.events.push({ time, channel, type: 'expression', value });
+        break;
+      case 101:
+        this.rpn.set(channel, (value << 7) | (Math.max(selected, 0) & 0x7F));
+        break;
+      case 100:
+        this.rpn.set(channel, (Math.max(selected, 0) & 0x3F80) | value);
+        break;
+      case 99:
+      case 98:
+        // NRPN selection disables RPN data entry until an RPN is selected again
+        this.rpn.set(channel, -1);
+        this.events.push({ time, channel, type: 'control', value, controller });
+        break;
+      case 6:
+        if (selected === RPN_PITCH_BEND_RANGE) {
+          this.events.push({ time, channel, type: 'pitchBendRange', value });
+          break;
+        }
+        this.events.push({ time, channel, type: 'control', value, controller });
+        break;
+      default:
+        this.events.push({ time, channel, type: 'control', value, controller });
+        break;
+    }
+  }
+}
+
+/**
+ * Score track chunk IDs are 'MTR' followed by a track number byte
+ * (some encoders write 'MTR ' or 'Mtr ').
+ */
+export function isScoreTrackId(id: string): boolean {
+  return id.startsWith('MTR') || id === 'Mtr ';
+}
+
+/**
+ * Audio track chunk IDs are 'ATR' followed by a track number byte.
+ */
+export function isAudioTrackId(id: string): boolean {
+  return id.startsWith('ATR');
+}
+
+/**
+ * Chunk ID for messages, with the binary track / wave number shown in hex.
+ */
+export function formatChunkId(id: string): string {
+  return id.replace(/[^\x20-\x7E]/g, char => `\\x${char.charCodeAt(0).toString(16).padStart(2, '0').toUpperCase()}`);
+}
+
+/**
+ * Key of MMFData.waves for a wave of an audio track. Wave numbers are only
+ * unique within their track.
+ */
+export function waveKey(track: number, wave: number): string {
+  return `${track}:${wave}`;
+}
+
+/**
+ * Size of the channel status that follows a score track header: 2 bytes
+ * (4 channels x 4 bits) for Handyphone Standard, 1 byte per channel otherwise.
+ */
+export function channelStatusSize(formatType: number): number {
+  return formatType === FORMAT_HANDYPHONE_STANDARD ? 2 : 16;
+}
+
+/**
+ * Key of MMFData.voices for the voice a channel plays with a given program.
+ */
+export function voiceKey(channel: number, program: number): string {
+  return `${channel}:${program}`;
+}
+
+/**
+ * Decode an MA-3 voice exclusive message (data between 0xF0 and 0xF7).
+ * Layout: 43 79 06 7F 01, bank MSB, bank LSB, program, drum note, panpot,
+ * LFO/PE/algorithm, then 7 bytes per operator.
+ */
+function decodeVoiceExclusive(data: Uint8Array): MMFVoice | null {
+  const header = VOICE_EXCLUSIVE_HEADER.length;
+  if (data.length < header + 6 || VOICE_EXCLUSIVE_HEADER.some((byte, i) => data[i] !== byte)) {
+    return null;
+  }
+
+  const voiceStart = header + 4;
+  const algorithm = data[voiceStart + 1] & 0x07;
+  const operatorCount = algorithm < 2 ? 2 : 4;
+  const operatorStart = voiceStart + 2;
+  if (data.length < operatorStart + operatorCount * VOICE_OPERATOR_SIZE) return null;
+
+  const operators: MMFOperator[] = [];
+  for (let i = 0; i < operatorCount; i++) {
+    const op = data.subarray(operatorStart + i * VOICE_OPERATOR_SIZE);
+    operators.push({
+      sustainRate: op[0] >> 4,
+      ignoreKeyOff: (op[0] & 0x08) !== 0,
+      sustain: (op[0] & 0x02) !== 0,
+      releaseRate: op[1] >> 4,
+      decayRate: op[1] & 0x0F,
+      attackRate: op[2] >> 4,
+      sustainLevel: op[2] & 0x0F,
+      totalLevel: op[3] >> 2,
+      keyScaleLevel: op[3] & 0x03,
+      tremoloDepth: (op[4] >> 5) & 0x03,
+      tremolo: (op[4] & 0x10) !== 0,
+      vibratoDepth: (op[4] >> 1) & 0x03,
+      vibrato: (op[4] & 0x01) !== 0,
+      multiplier: op[5] >> 4,
+      detune: op[5] & 0x07,
+      waveform: op[6] >> 3,
+      feedback: op[6] & 0x07
+    });
+  }
+
+  return {
+    bank: data[header],
+    program: data[header + 2] & 0x7F,
+    drumNote: data[header + 3] & 0x7F,
+    panpot: data[voiceStart] >> 3,
+    lfo: data[voiceStart + 1] >> 6,
+    pitchEnvelope: (data[voiceStart + 1] & 0x20) !== 0,
+    algorithm,
+    operators
+  };
+}
+
+/**
+ * Assign voice definitions to the channels that select them with bank select
+ * and program change (channels without a program change use bank 0, program 0).
+ */
+function assignVoices(
+  definitions: MMFVoice[],
+  notes: MMFNote[],
+  channelEvents: MMFChannelEvent[]
+): Record<string, MMFVoice> {
+  const voices: Record<string, MMFVoice> = {};
+  if (definitions.length === 0) return voices;
+
+  const find = (bank: number, program: number) =>
+    definitions.find(voice => voice.bank === bank && voice.program === program) ??
+    definitions.find(voice => voice.program === program);
+
+  const banks = new Map<number, number>();
+  const assign = (channel: number, program: number) => {
+    const voice = find(banks.get(channel) ?? 0, program);
+    if (voice) voices[voiceKey(channel, program)] ??= voice;
+  };
+
+  for (const channel of new Set(notes.map(note => note.channel))) {
+    assign(channel, 0);
+  }
+  for (const event of channelEvents) {
+    if (event.type === 'bankSelect') banks.set(event.channel, event.value);
+    if (event.type === 'program') assign(event.channel, event.value);
+  }
+
+  return voices;
+}
+
+/**
+ * Combine pitch bend data bytes into a signed value (-8192 to 8191).
+ */
+function readPitchBend(lsb: number, msb: number): number {
+  return (((msb & 0x7F) << 7) | (lsb & 0x7F)) - 8192;
+}
+
+/**
+ * Decode a Handyphone Standard octave shift value.
+ * 0x00-0x04 shift up by 0-4 octaves, 0x81-0x84 shift down by 1-4 octaves.
+ */
+function decodeOctaveShift(value: number): number {
+  const amount = Math.min(value & 0x7F, 4);
+  return value & 0x80 ? -amount : amount;
+}
+
+export interface MMFParserOptions {
+  encoding?: TextEncoding; // Decode metadata in this encoding instead of the detected one
+  onProgress?: (progress: number) => void; // Called with 0-1 as parse() reads through the file
+}
+
 export class MMFParser {
   private data: Uint8Array;
   private position: number = 0;
+  private issues: MMFIssue[] = [];
+  private encoding?: TextEncoding;
+  private onProgress?: (progress: number) => void;
+  private progressReportedAt = 0;
 
-  constructor(arrayBuffer: ArrayBuffer) {
+  constructor(arrayBuffer: ArrayBuffer, options: MMFParserOptions = {}) {
     this.data = new Uint8Array(arrayBuffer);
+    this.encoding = options.encoding;
+    this.onProgress = options.onProgress;
   }
 
   parse(): MMFData {
@@ -49,208 +516,729 @@ export class MMFParser {
     }
 
     const metadata: MMFMetadata = {};
-    const notes: MMFNote[] = [];
-    let tempo = 120; // Default tempo
+    const tracks: TrackData[] = [];
+    const audioTracks: AudioTrackData[] = [];
 
     // Parse file size
     const fileSize = this.readUInt32BE();
     
     // Parse chunks
-    while (this.position < this.data.length - 8) {
+    while (this.position < this.data.length - CHUNK_HEADER_SIZE) {
+      this.reportProgress();
       const chunk = this.readChunkHeader();
       
       if (!chunk) break;
 
+      // Keep chunks inside the file (validateMMF reports the overrun)
+      chunk.size = Math.min(chunk.size, this.data.length - chunk.offset);
+
       switch (chunk.type) {
         case 'CNTI':
         case 'OPDA':
           // Parse content info and optional data chunks
-          Object.assign(metadata, this.parseCNTI(chunk));
-          break;
-        case 'MTR ':
-        case 'Mtr ':
-          // Parse music track chunk
-          const trackData = this.parseMTR(chunk);
-          notes.push(...trackData.notes);
-          if (trackData.tempo) tempo = trackData.tempo;
+          Object.assign(metadata, this.parseContentInfo(chunk));
           break;
         case 'MSTR':
-          // Master track - skip for now (contains global tempo/timing)
-          this.position = chunk.offset + chunk.size;
-          break;
-        case 'Atsq':
-        case 'ATR ':
-          // Audio track - skip for now
+          // Master track: the SMAF format documents don't describe its
+          // contents, so it is skipped rather than read by guesswork
           this.position = chunk.offset + chunk.size;
           break;
         default:
+          if (isScoreTrackId(chunk.type)) {
+            // Parse score track chunk ('MTR' + track number)
+            tracks.push(this.parseMTR(chunk));
+            break;
+          }
+          if (isAudioTrackId(chunk.type)) {
+            // Parse audio track chunk ('ATR' + track number)
+            audioTracks.push(this.parseATR(chunk, audioTracks.length));
+            break;
+          }
           // Skip unknown chunks
           this.position = chunk.offset + chunk.size;
           break;
       }
     }
 
+    // Merge tracks on a common resolution and convert ticks to milliseconds
+    const resolution = tracks[0]?.resolution ?? DEFAULT_TPQN;
+    const tempoMap = buildTempoMap(
+      tracks.flatMap(track => track.tempoChanges.map(change => ({
+        tick: change.tick * resolution / track.resolution,
+        tempo: change.tempo
+      }))),
+      resolution
+    );
+    const { notes, channelEvents } = this.applyTempoMap(tracks, tempoMap, resolution);
+    const voices = assignVoices(tracks.flatMap(track => track.voiceDefinitions), notes, channelEvents);
+    const waves: Record<string, MMFWave> = {};
+    audioTracks.forEach((track, index) => {
+      for (const [wave, data] of Object.entries(track.waves)) waves[waveKey(index, Number(wave))] = data;
+    });
+    const audioEvents = this.applyTempoMapToAudio(audioTracks, tempoMap, resolution);
+
     // Calculate total duration
-    const duration = notes.length > 0
-      ? Math.max(...notes.map(n => n.time + n.duration))
-      : 0;
+    let duration = 0;
+    for (const event of [notes, audioEvents].flat()) {
+      duration = Math.max(duration, event.time + event.duration);
+    }
+    this.onProgress?.(1);
 
     return {
       metadata,
       notes,
+      channelEvents,
       duration,
-      tempo
+      tempo: Math.round(tempoMap[0].tempo),
+      tempoMap,
+      resolution,
+      timeSignature: { numerator: 4, denominator: 4 },
+      voices,
+      audioEvents,
+      waves
     };
   }
 
+  private applyTempoMap(
+    tracks: TrackData[],
+    tempoMap: MMFTempoSegment[],
+    resolution: number
+  ): Omit<SequenceData, 'voiceDefinitions'> {
+    const notes: MMFNote[] = [];
+    const channelEvents: MMFChannelEvent[] = [];
+
+    for (const track of tracks) {
+      const scale = resolution / track.resolution;
+      for (const note of track.notes) {
+        const start = tickToMs(tempoMap, resolution, note.time * scale);
+        const end = tickToMs(tempoMap, resolution, (note.time + note.duration) * scale);
+        notes.push({ ...note, time: start, duration: end - start });
+      }
+      for (const event of track.channelEvents) {
+        channelEvents.push({ ...event, time: tickToMs(tempoMap, resolution, event.time * scale) });
+      }
+    }
+
+    return {
+      notes: notes.sort((a, b) => a.time - b.time),
+      channelEvents: channelEvents.sort((a, b) => a.time - b.time)
+    };
+  }
+
+  private applyTempoMapToAudio(
+    tracks: AudioTrackData[],
+    tempoMap: MMFTempoSegment[],
+    resolution: number
+  ): MMFAudioEvent[] {
+    const events: MMFAudioEvent[] = [];
+
+    for (const track of tracks) {
+      const scale = resolution / track.resolution;
+      for (const event of track.events) {
+        const wave = track.waves[event.wave];
+        if (!wave) continue;
+
+        // A wave never plays past its own end; a zero gate time plays it through
+        const waveLength = wave.samples[0].length / wave.sampleRate * 1000;
+        const start = tickToMs(tempoMap, resolution, event.time * scale);
+        const end = tickToMs(tempoMap, resolution, (event.time + event.duration) * scale);
+        const duration = event.duration > 0 ? Math.min(end - start, waveLength) : waveLength;
+        events.push({ ...event, time: start, duration });
+      }
+    }
+
+    return events.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Read only the content info and optional data chunks, e.g. to decode the
+   * metadata again in another encoding without parsing the tracks.
+   */
+  parseMetadata(): MMFMetadata {
+    if (!this.verifyHeader()) {
+      throw new Error('Invalid MMF file: MMMD header not found');
+    }
+
+    const metadata: MMFMetadata = {};
+    this.readUInt32BE();
+
+    while (this.position < this.data.length - CHUNK_HEADER_SIZE) {
+      const chunk = this.readChunkHeader();
+      if (!chunk) break;
+
+      chunk.size = Math.min(chunk.size, this.data.length - chunk.offset);
+      if (chunk.type === 'CNTI' || chunk.type === 'OPDA') {
+        Object.assign(metadata, this.parseContentInfo(chunk));
+      }
+      this.position = chunk.offset + chunk.size;
+    }
+
+    return metadata;
+  }
+
+  /** Problems found in track contents during the last parse(). */
+  getIssues(): MMFIssue[] {
+    return this.issues;
+  }
+
+  private report(severity: MMFIssueSeverity, offset: number, message: string): void {
+    this.issues.push({ severity, offset, message });
+  }
+
+  /**
+   * Whether the rest of an event fits before endPos; records the event starting
+   * at eventStart as truncated when it does not.
+   */
+  private hasBytes(count: number, endPos: number, eventStart: number): boolean {
+    if (this.position + count <= endPos) return true;
+    this.report('warning', eventStart, 'Truncated event at the end of the sequence');
+    return false;
+  }
+
+  /** Record a sub-chunk whose declared size runs past its parent chunk. */
+  private checkSubChunk(subChunk: ChunkInfo, endPos: number): void {
+    if (subChunk.offset + subChunk.size > endPos) {
+      this.report('error', subChunk.offset - CHUNK_HEADER_SIZE, `Sub-chunk ${formatChunkId(subChunk.type)} runs past the end of its track`);
+    }
+  }
+
   private verifyHeader(): boolean {
     const header = this.readString(4);
     return header === 'MMMD';
   }
 
   private readChunkHeader(): ChunkInfo | null {
-    if (this.position >= this.data.length - 8) {
+    if (this.position >= this.data.length - CHUNK_HEADER_SIZE) {
       return null;
     }
 
-    const type = this.readString(4);
+    const type = this.readChunkId();
     const size = this.readUInt32BE();
     const offset = this.position;
 
     return { type, size, offset };
   }
 
-  private parseCNTI(chunk: ChunkInfo): MMFMetadata {
-    const metadata: MMFMetadata = {};
+  /**
+   * Parse the content info (CNTI) or optional data (OPDA) chunk.
+   */
+  private parseContentInfo(chunk: ChunkInfo): MMFMetadata {
+    const data = this.data.subarray(chunk.offset, chunk.offset + chunk.size);
+    this.position = chunk.offset + chunk.size;
+    return chunk.type === 'CNTI'
+      ? decodeContentInfo(data, this.encoding)
+      : decodeOptionalData(data, this.encoding);
+  }
+
+  /**
+   * Parse an audio track.
+   * Header: format type, sequence type, wave type, base bit, TimeBase_D and
+   * TimeBase_G, followed by Atsu (setup), Atsq (sequence) and Awa* (wave data)
+   * sub-chunks.
+   */
+  private parseATR(chunk: ChunkInfo, index: number): AudioTrackData {
     const endPos = chunk.offset + chunk.size;
+    const track: AudioTrackData = { events: [], resolution: DEFAULT_TPQN, waves: {} };
 
-    while (this.position < endPos - 2) {
-      const contentType = this.readUInt8();
-      const contentSize = this.readUInt8();
-      
-      if (contentSize === 0 || this.position + contentSize > endPos) {
-        break;
-      }
+    if (this.position + AUDIO_TRACK_HEADER_SIZE > endPos) {
+      this.report('error', chunk.offset, 'Audio track header is truncated');
+      this.position = endPos;
+      return track;
+    }
 
-      const content = this.readString(contentSize);
+    this.readUInt8(); // Format type
+    this.readUInt8(); // Sequence type
+    const waveType = this.readUInt8();
+    const baseBit = this.readUInt8();
+    const msPerTickD = TIMEBASE_MS[this.readUInt8()];
+    const msPerTickG = TIMEBASE_MS[this.readUInt8()];
+    const waveFormat = parseWaveFormat(waveType, baseBit);
 
-      switch (contentType) {
-        case 0x00:
-          metadata.title = content;
-          break;
-        case 0x01:
-          metadata.composer = content;
-          break;
-        case 0x02:
-          metadata.arranger = content;
-          break;
-        case 0x03:
-          metadata.copyright = content;
-          break;
+    if (msPerTickD === undefined || msPerTickG === undefined || !waveFormat) {
+      this.report('error', chunk.offset, 'Audio track has an unknown time base or wave format');
+      this.position = endPos;
+      return track;
+    }
+    track.resolution = MS_PER_QUARTER_NOTE / msPerTickD;
+
+    while (this.position + CHUNK_HEADER_SIZE <= endPos) {
+      const subChunk = this.readChunkHeader();
+      if (!subChunk) break;
+      this.checkSubChunk(subChunk, endPos);
+      const subEnd = Math.min(subChunk.offset + subChunk.size, endPos);
+
+      if (subChunk.type === 'Atsq') {
+        track.events = track.events.concat(this.decodeAudioSequence(index, msPerTickG / msPerTickD, subEnd));
+      } else if (subChunk.type.startsWith('Awa')) {
+        // Wave data: 'Awa' + wave number
+        const waveNumber = subChunk.type.charCodeAt(3);
+        track.waves[waveNumber] = {
+          sampleRate: waveFormat.sampleRate,
+          samples: decodeWave(this.data.subarray(this.position, subEnd), waveFormat)
+        };
       }
+      // Atsu (setup data) - skip
+
+      this.position = subEnd;
     }
 
     this.position = endPos;
-    return metadata;
+    return track;
   }
 
-  private parseMTR(chunk: ChunkInfo): { notes: MMFNote[]; tempo?: number } {
-    const notes: MMFNote[] = [];
+  /**
+   * Decode audio track sequence data.
+   * Uses the Handyphone Standard event layout, where a wave message packs the
+   * channel (2 bits) and wave number (6 bits) and is followed by a gate time.
+   */
+  private decodeAudioSequence(track: number, gateScale: number, endPos: number): MMFAudioEvent[] {
+    const events: MMFAudioEvent[] = [];
+    let tick = 0;
+
+    let eventStart = this.position;
+
+    while (this.position < endPos) {
+      this.reportProgress();
+      eventStart = this.position;
+      tick += this.readHandyphoneLength();
+      if (this.position >= endPos) break;
+
+      const event = this.readUInt8();
+
+      if (event === 0xFF) {
+        // Exclusive (0xFF 0xF0 size data...) or NOP (0xFF 0x00)
+        if (!this.hasBytes(1, endPos, eventStart)) break;
+        if (this.readUInt8() === 0xF0) {
+          if (!this.hasBytes(1, endPos, eventStart)) break;
+          this.position += this.readUInt8();
+        }
+        continue;
+      }
+
+      if (event === 0x00) {
+        // Control message, long form carries an extra value byte
+        if (!this.hasBytes(1, endPos, eventStart)) break;
+        if ((this.readUInt8() & 0x30) === 0x30) this.position++;
+        continue;
+      }
+
+      if (!this.hasBytes(1, endPos, eventStart)) break;
+      const gateTime = this.readHandyphoneLength();
+      events.push({
+        time: tick,
+        duration: gateTime * gateScale,
+        track,
+        wave: event & 0x3F,
+        channel: event >> 6
+      });
+    }
+
+    if (this.position > endPos) this.hasBytes(0, endPos, eventStart);
+    return events;
+  }
+
+  private parseMTR(chunk: ChunkInfo): TrackData {
     const endPos = chunk.offset + chunk.size;
-    let currentTime = 0;
-    let tempo: number | undefined;
+    const empty: TrackData = {
+      notes: [],
+      channelEvents: [],
+      voiceDefinitions: [],
+      tempoChanges: [],
+      resolution: DEFAULT_TPQN
+    };
 
-    // Check if we have at least 5 bytes for MTR header
-    if (this.position + 5 > endPos) {
+    // Check if we have at least the fixed part of the MTR header
+    if (this.position + SCORE_TRACK_HEADER_SIZE > endPos) {
+      this.report('error', chunk.offset, 'Score track header is truncated');
       this.position = endPos;
-      return { notes, tempo };
+      return empty;
     }
 
     // Parse MTR chunk header fields
     // These fields define the format and timing for the sequence data
-    // Note: We read all header fields to advance the position correctly,
-    // even if not all fields are currently used
-    const formatType = this.readUInt8();     // Format type (e.g., Handyphone Standard, Mobile Standard)
+    const formatType = this.readUInt8();     // Format type (Handyphone Standard, Mobile Standard)
     const sequenceType = this.readUInt8();   // Sequence type (continuous or phrase-based)
-    const timeBaseD = this.readUInt8();      // Time base for duration (ticks per quarter note)
-    const timeBaseG = this.readUInt8();      // Time base for gate time
-    const channelStatus = this.readUInt8();  // Channel status byte
+    const timeBaseD = this.readUInt8();      // Time base code for duration
+    const timeBaseG = this.readUInt8();      // Time base code for gate time
+
+    // Channel status is not needed for playback
+    const statusSize = channelStatusSize(formatType);
+    if (this.position + statusSize > endPos) {
+      this.report('error', chunk.offset, 'Score track channel status is truncated');
+      this.position = endPos;
+      return empty;
+    }
+    this.position += statusSize;
+
+    const track: ScoreTrackHeader = {
+      offset: chunk.offset,
+      formatType,
+      sequenceType,
+      msPerTickD: TIMEBASE_MS[timeBaseD],
+      msPerTickG: TIMEBASE_MS[timeBaseG],
+    };
+
+    // Real SMAF tracks carry their data in Mts* sub-chunks. Anything else is
+    // treated as a MIDI-style event stream with TimeBase_D as ticks per quarter note.
+    let result: TrackData;
+    if (track.msPerTickD !== undefined && track.msPerTickG !== undefined && this.peekString(3) === 'Mts') {
+      // SMAF timing is absolute, so pick the resolution that makes one tick
+      // last exactly one TimeBase_D step at the default tempo
+      result = {
+        ...this.parseScoreSubChunks(track, endPos),
+        tempoChanges: [],
+        resolution: MS_PER_QUARTER_NOTE / track.msPerTickD
+      };
+    } else {
+      result = this.parseLegacySequence(timeBaseD, endPos);
+    }
+
+    this.position = endPos;
+    return result;
+  }
+
+  private parseScoreSubChunks(track: ScoreTrackHeader, endPos: number): SequenceData {
+    const sequence: SequenceData = { notes: [], channelEvents: [], voiceDefinitions: [] };
+
+    while (this.position + CHUNK_HEADER_SIZE <= endPos) {
+      const subChunk = this.readChunkHeader();
+      if (!subChunk) break;
+      this.checkSubChunk(subChunk, endPos);
+      const subEnd = Math.min(subChunk.offset + subChunk.size, endPos);
+
+      switch (subChunk.type) {
+        case 'Mtsq':
+          // Sequence data
+          let decoded: SequenceData | undefined;
+          if (track.formatType === FORMAT_HANDYPHONE_STANDARD) {
+            decoded = this.decodeHandyphoneSequence(track, subEnd);
+          } else if (track.formatType === FORMAT_MOBILE_STANDARD) {
+            decoded = this.decodeMobileSequence(track, subEnd);
+          } else if (track.formatType === FORMAT_MOBILE_COMPRESSED) {
+            // The track would play silent, so the file is reported as not playable
+            this.report('error', track.offset, 'Compressed Mobile Standard tracks are not supported');
+          }
+          if (decoded) {
+            // concat, as spreading long sequences into push() overflows the stack
+            sequence.notes = sequence.notes.concat(decoded.notes);
+            sequence.channelEvents = sequence.channelEvents.concat(decoded.channelEvents);
+            sequence.voiceDefinitions = sequence.voiceDefinitions.concat(decoded.voiceDefinitions);
+          }
+          break;
+        case 'Mtsu':
+          // Setup data: a series of exclusive messages (voice definitions etc.)
+          while (this.position < subEnd && this.data[this.position] === 0xF0) {
+            this.position++;
+            const voice = this.readVoiceExclusive(subEnd);
+            if (voice) sequence.voiceDefinitions.push(voice);
+          }
+          break;
+        case 'Mtsp':
+        default:
+          // Stream PCM data - skip
+          break;
+      }
+
+      this.position = subEnd;
+    }
+
+    return sequence;
+  }
+
+  /**
+   * Decode Handyphone Standard (MA-1/MA-2) sequence data.
+   * Each event is a duration followed by either a 1-byte note (channel, octave
+   * block and pitch packed together) plus gate time, a 0x00-prefixed control
+   * message or a 0xFF-prefixed exclusive message.
+   */
+  private decodeHandyphoneSequence(track: ScoreTrackHeader, endPos: number): SequenceData {
+    const tracker = new NoteTracker();
+    const controls = new ChannelEventTracker();
+    const octaveShift = new Array<number>(HANDYPHONE_CHANNELS).fill(0);
+    const gateScale = track.msPerTickG! / track.msPerTickD!;
+    let tick = 0;
+    let eventStart = this.position;
+
+    while (this.position < endPos) {
+      this.reportProgress();
+      eventStart = this.position;
+      tick += this.readHandyphoneLength();
+      if (this.position >= endPos) break;
+
+      const event = this.readUInt8();
+
+      if (event === 0xFF) {
+        // Exclusive (0xFF 0xF0 size data...) or NOP (0xFF 0x00)
+        if (!this.hasBytes(1, endPos, eventStart)) break;
+        const type = this.readUInt8();
+        if (type === 0xF0) {
+          if (!this.hasBytes(1, endPos, eventStart)) break;
+          const size = this.readUInt8();
+          this.position += size;
+        }
+        continue;
+      }
+
+      if (event === 0x00) {
+        // Control message: channel (2 bits), form (2 bits), value/type (4 bits)
+        if (!this.hasBytes(1, endPos, eventStart)) break;
+        const control = this.readUInt8();
+        const channel = control >> 6;
+        const form = (control >> 4) & 0x03;
+        const nibble = control & 0x0F;
+
+        if (form !== 0x03) {
+          // Short forms: expression, pitch bend (8 = center), modulation
+          if (form === 0x00) {
+            controls.controlChange(tick, channel, 11, nibble === 0 ? 0 : nibble * 8 + 7);
+          } else if (form === 0x01) {
+            controls.pitchBend(tick, channel, (nibble - 8) * 1024);
+          } else {
+            controls.controlChange(tick, channel, 1, nibble * 8);
+          }
+          continue;
+        }
+
+        // Long form carries an extra value byte
+        if (!this.hasBytes(1, endPos, eventStart)) break;
+        const raw = this.readUInt8();  // Octave shift keeps its sign in the top bit
+        const value = raw & 0x7F;
+        switch (nibble) {
+          case HANDYPHONE_PROGRAM_CHANGE:
+            controls.program(tick, channel, value);
+            break;
+          case HANDYPHONE_BANK_SELECT:
+            controls.controlChange(tick, channel, 0, value);
+            break;
+          case HANDYPHONE_OCTAVE_SHIFT:
+            octaveShift[channel] = decodeOctaveShift(raw);
+            break;
+          case HANDYPHONE_MODULATION:
+            controls.controlChange(tick, channel, 1, value);
+            break;
+          case HANDYPHONE_PITCH_BEND:
+            controls.pitchBend(tick, channel, (value - 64) * 128);
+            break;
+          case HANDYPHONE_VOLUME:
+            controls.controlChange(tick, channel, 7, value);
+            break;
+          case HANDYPHONE_PAN:
+            controls.controlChange(tick, channel, 10, value);
+            break;
+          case HANDYPHONE_EXPRESSION:
+            controls.controlChange(tick, channel, 11, value);
+            break;
+        }
+        continue;
+      }
+
+      // Note message: channel (2 bits), octave block (2 bits), pitch (4 bits, 1-12 = C-B)
+      const channel = event >> 6;
+      const block = (event >> 4) & 0x03;
+      const pitch = event & 0x0F;
+      if (!this.hasBytes(1, endPos, eventStart)) break;
+      const gateTime = this.readHandyphoneLength();
+
+      if (pitch < 1 || pitch > 12) continue;
+
+      const note = 12 * (HANDYPHONE_BASE_OCTAVE + block + octaveShift[channel]) + pitch - 1;
+      if (note < 0 || note > 127) continue;
+
+      tracker.gatedNote(tick, channel, note, HANDYPHONE_VELOCITY, gateTime * gateScale);
+    }
+
+    if (this.position > endPos) this.hasBytes(0, endPos, eventStart);
+    return { notes: tracker.finish(tick), channelEvents: controls.events, voiceDefinitions: [] };
+  }
+
+  /**
+   * Decode Mobile Standard (MA-3 and later) sequence data.
+   * Events are a variable-length duration followed by a MIDI-like status byte;
+   * note messages carry their own gate time instead of a separate note off.
+   */
+  private decodeMobileSequence(track: ScoreTrackHeader, endPos: number): SequenceData {
+    const tracker = new NoteTracker();
+    const controls = new ChannelEventTracker();
+    const voiceDefinitions: MMFVoice[] = [];
+    const gateScale = track.msPerTickG! / track.msPerTickD!;
+    let tick = 0;
+    let eventStart = this.position;
+
+    while (this.position < endPos) {
+      this.reportProgress();
+      eventStart = this.position;
+      tick += this.readVariableLength();
+      if (this.position >= endPos) break;
+
+      const status = this.readUInt8();
+      const channel = status & 0x0F;
+
+      switch (status & 0xF0) {
+        case 0x80:
+        case 0x90: {
+          // Note (0x8n: no velocity, 0x9n: with velocity)
+          const hasVelocity = (status & 0xF0) === 0x90;
+          if (!this.hasBytes(hasVelocity ? 3 : 2, endPos, eventStart)) {
+            this.position = endPos;
+            break;
+          }
+          const note = this.readUInt8();
+          const velocity = hasVelocity ? this.readUInt8() : MOBILE_DEFAULT_VELOCITY;
+          const gateTime = this.readVariableLength();
+
+          tracker.gatedNote(tick, channel, note & 0x7F, velocity & 0x7F, gateTime * gateScale);
+          break;
+        }
+        case 0xB0:
+          // Control change (including RPN/NRPN)
+          if (!this.hasBytes(2, endPos, eventStart)) {
+            this.position = endPos;
+            break;
+          }
+          controls.controlChange(tick, channel, this.readUInt8() & 0x7F, this.readUInt8() & 0x7F);
+          break;
+        case 0xC0:
+          // Program change
+          if (!this.hasBytes(1, endPos, eventStart)) break;
+          controls.program(tick, channel, this.readUInt8());
+          break;
+        case 0xE0:
+          // Pitch bend: LSB, MSB
+          if (!this.hasBytes(2, endPos, eventStart)) {
+            this.position = endPos;
+            break;
+          }
+          controls.pitchBend(tick, channel, readPitchBend(this.readUInt8(), this.readUInt8()));
+          break;
+        case 0xA0:
+          // Reserved
+          this.position += 2;
+          break;
+        case 0xD0:
+          // Reserved
+          this.position += 1;
+          break;
+        case 0xF0:
+          if (status === 0xF0) {
+            // Exclusive: variable-length size then data
+            const voice = this.readVoiceExclusive(endPos);
+            if (voice) voiceDefinitions.push(voice);
+          } else if (status === 0xFF) {
+            // 0xFF 0x2F 0x00: end of sequence, 0xFF 0x00: NOP
+            const type = this.readUInt8();
+            if (type === 0x2F) {
+              this.position = endPos;
+            }
+          }
+          break;
+      }
+    }
+
+    if (this.position > endPos) this.hasBytes(0, endPos, eventStart);
+    return { notes: tracker.finish(tick), channelEvents: controls.events, voiceDefinitions };
+  }
+
+  /**
+   * Read an exclusive message (size and data, after the 0xF0 status byte) and
+   * decode it if it is a voice definition.
+   */
+  private readVoiceExclusive(endPos: number): MMFVoice | null {
+    const messageStart = this.position - 1;
+    const size = this.readVariableLength();
+    this.hasBytes(size, endPos, messageStart);
+    const dataEnd = Math.min(this.position + size, endPos);
+    let data = this.data.subarray(this.position, dataEnd);
+    if (data[data.length - 1] === 0xF7) data = data.subarray(0, data.length - 1);
+    this.position = dataEnd;
+    return decodeVoiceExclusive(data);
+  }
+
+  private parseLegacySequence(timeBase: number, endPos: number): TrackData {
+    const tracker = new NoteTracker();
+    const controls = new ChannelEventTracker();
+    const voiceDefinitions: MMFVoice[] = [];
+    const tempoChanges: TempoChange[] = [];
+    let currentTick = 0;
 
-    // Calculate time resolution in milliseconds
     // TimeBase_D represents ticks per quarter note
-    // Default tempo is 120 BPM = 500ms per quarter note
-    const msPerQuarterNote = 500; // 120 BPM default
-    const tickDuration = timeBaseD > 0 ? msPerQuarterNote / timeBaseD : msPerQuarterNote / DEFAULT_TPQN;
+    const resolution = timeBase > 0 ? timeBase : DEFAULT_TPQN;
 
     // Parse sequence data
-    while (this.position < endPos - 1) {
+    while (this.position < endPos) {
+      this.reportProgress();
+      const eventStart = this.position;
       const status = this.readUInt8();
 
       // Note off: 0x80-0x8F
       if (status >= 0x80 && status <= 0x8F) {
         const channel = status & 0x0F;
-        if (this.position + 2 > endPos) break;
+        if (!this.hasBytes(2, endPos, eventStart)) break;
         const note = this.readUInt8();
-        const velocity = this.readUInt8();
-        // Skip note off events - using default duration for simplicity
+        this.readUInt8(); // Release velocity
+        tracker.noteOff(currentTick, channel, note);
         continue;
       }
 
       // Note on: 0x90-0x9F
       if (status >= 0x90 && status <= 0x9F) {
         const channel = status & 0x0F;
-        if (this.position + 2 > endPos) break;
+        if (!this.hasBytes(2, endPos, eventStart)) break;
         const note = this.readUInt8();
         const velocity = this.readUInt8();
-        
-        if (velocity > 0) {
-          // Use default duration since note off tracking is not implemented
-          const duration = DEFAULT_NOTE_DURATION_MS;
-          notes.push({
-            time: currentTime,
-            note,
-            duration,
-            velocity,
-            channel
-          });
-        }
+        tracker.noteOn(currentTick, channel, note, velocity);
+        continue;
+      }
+
+      // Exclusive: variable-length size then data
+      if (status === 0xF0) {
+        const voice = this.readVoiceExclusive(endPos);
+        if (voice) voiceDefinitions.push(voice);
         continue;
       }
 
       // Tempo change: 0xFF 0x51 0x03
       if (status === 0xFF) {
-        if (this.position + 2 > endPos) break;
+        if (!this.hasBytes(2, endPos, eventStart)) break;
         const metaType = this.readUInt8();
         const length = this.readUInt8();
         
         if (metaType === 0x51 && length === 3 && this.position + 3 <= endPos) {
           const microsecondsPerBeat = this.readUInt24BE();
-          tempo = Math.round(60000000 / microsecondsPerBeat);
+          if (microsecondsPerBeat > 0) {
+            tempoChanges.push({ tick: currentTick, tempo: 60000000 / microsecondsPerBeat });
+          }
         } else {
           // Skip meta event data
-          if (this.position + length <= endPos) {
-            this.position += length;
-          } else {
-            break;
-          }
+          if (!this.hasBytes(length, endPos, eventStart)) break;
+          this.position += length;
         }
         continue;
       }
 
       // Delta time (variable length)
       if (status < 0x80) {
-        const deltaTime = this.readVariableLength(status);
-        currentTime += deltaTime * tickDuration;
+        currentTick += this.readVariableLength(status);
         continue;
       }
 
-      // Control change, program change, etc - skip
+      // Control change, program change, channel pressure, pitch bend
       if (status >= 0xB0 && status <= 0xEF) {
+        const channel = status & 0x0F;
         const dataBytes = status >= 0xC0 && status <= 0xDF ? 1 : 2;
-        if (this.position + dataBytes <= endPos) {
-          this.position += dataBytes;
-        } else {
-          break;
+        if (!this.hasBytes(dataBytes, endPos, eventStart)) break;
+
+        const data1 = this.readUInt8() & 0x7F;
+        const data2 = dataBytes === 2 ? this.readUInt8() & 0x7F : 0;
+        switch (status & 0xF0) {
+          case 0xB0:
+            controls.controlChange(currentTick, channel, data1, data2);
+            break;
+          case 0xC0:
+            controls.program(currentTick, channel, data1);
+            break;
+          case 0xE0:
+            controls.pitchBend(currentTick, channel, readPitchBend(data1, data2));
+            break;
         }
         continue;
       }
@@ -259,8 +1247,24 @@ export class MMFParser {
       if (this.position >= endPos) break;
     }
 
-    this.position = endPos;
-    return { notes, tempo };
+    return {
+      notes: tracker.finish(currentTick),
+      channelEvents: controls.events,
+      voiceDefinitions,
+      tempoChanges,
+      resolution
+    };
+  }
+
+  /**
+   * Read a Handyphone Standard duration / gate time.
+   * One byte for 0-127, otherwise two bytes offset by 128.
+   */
+  private readHandyphoneLength(): number {
+    const first = this.readUInt8();
+    if (!(first & 0x80)) return first;
+    const second = this.readUInt8();
+    return (((first & 0x7F) << 7) | second) + 128;
   }
 
   private readVariableLength(firstByte?: number): number {
@@ -278,18 +1282,28 @@ export class MMFParser {
     return value;
   }
 
+  private readChunkId(): string {
+    const id = this.peekString(4);
+    this.position += 4;
+    return id;
+  }
+
+  private peekString(length: number): string {
+    return String.fromCharCode(...this.data.subarray(this.position, this.position + length));
+  }
+
   private readString(length: number): string {
     const bytes = this.data.slice(this.position, this.position + length);
     this.position += length;
-    
-    // Handle Shift-JIS encoded strings
-    try {
-      const decoder = new TextDecoder('shift-jis');
-      return decoder.decode(bytes).replace(/\0/g, '').trim();
-    } catch {
-      // Fallback to ASCII
-      return String.fromCharCode(...bytes).replace(/\0/g, '').trim();
-    }
+    return decodeShiftJIS(bytes).replace(/\0/g, '').trim();
+  }
+
+  /** Report how far through the file reading is, about PROGRESS_STEPS times in all. */
+  private reportProgress(): void {
+    if (!this.onProgress) return;
+    if (this.position - this.progressReportedAt < this.data.length / PROGRESS_STEPS) return;
+    this.progressReportedAt = this.position;
+    this.onProgress(this.position / this.data.length);
   }
 
   private readUInt8(): number {
@@ -311,16 +1325,18 @@ export class MMFParser {
   }
 
   private readUInt32BE(): number {
-    const value = (this.data[this.position] << 24) | 
-                  (this.data[this.position + 1] << 16) | 
-                  (this.data[this.position + 2] << 8) | 
-                  this.data[this.position + 3];
+    const value = readUInt32BE(this.data, this.position);
     this.position += 4;
-    return value >>> 0; // Convert to unsigned
+    return value;
   }
 }
 
-export function parseMMF(arrayBuffer: ArrayBuffer): MMFData {
-  const parser = new MMFParser(arrayBuffer);
+export function parseMMF(arrayBuffer: ArrayBuffer, options: MMFParserOptions = {}): MMFData {
+  const parser = new MMFParser(arrayBuffer, options);
   return parser.parse();
 }
+
+export function parseMMFMetadata(arrayBuffer: ArrayBuffer, options: MMFParserOptions = {}): MMFMetadata {
+  const parser = new MMFParser(arrayBuffer, options);
+  return parser.parseMetadata();
+}
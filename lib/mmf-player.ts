@@ -3,17 +3,40 @@
  * Plays back MMF/SMAF format music data
  */
 
-import { MMFData, MMFNote } from './mmf-parser';
+import { MMFData, MMFLoop } from './mmf-parser';
+import { createVoiceEngine, SynthMode, VoiceEngine } from './voice-engine';
+import { SongScheduler } from './song-scheduler';
+import { ChannelMix, ChannelMixer } from './channel-mixer';
+
+// Look-ahead scheduling: a timer loop on the audio clock keeps this far of
+// the song scheduled, so only a few hundred milliseconds of voices exist at once
+export const SCHEDULE_AHEAD = 150; // Milliseconds of song scheduled ahead of the playhead
+export const TICK_INTERVAL = 25;   // Milliseconds between scheduler ticks
+const MIN_LOOP_LENGTH = 50; // Shorter loop ranges are ignored
+const MIN_PLAYBACK_RATE = 0.25;
+const MAX_PLAYBACK_RATE = 2;
+const MAX_TRANSPOSE = 12;   // Semitones either way
 
 export type PlayerState = 'idle' | 'playing' | 'paused' | 'stopped';
 
-// Audio configuration constants
-const MAX_VOLUME_MULTIPLIER = 0.3; // Max volume to avoid clipping (30% of full volume)
+export interface PlayerLoop {
+  range?: MMFLoop;  // A–B range in milliseconds; defaults to the whole song
+  count?: number;   // Times the range plays in total; Infinity (default) loops forever
+}
 
 export interface PlayerOptions {
   onProgress?: (progress: number) => void;
   onStateChange?: (state: PlayerState) => void;
   onEnd?: () => void;
+  synthMode?: SynthMode;  // 'fm' (default) or 'simple' single-oscillator voices
+  loop?: PlayerLoop;      // Loop playback; plays through once when unset
+}
+
+// A loop wrap scheduled ahead of the playhead: from context time `at` on, the
+// song position is measured from `startTime`
+interface LoopWrap {
+  at: number;
+  startTime: number;
 }
 
 export class MMFPlayer {
@@ -22,16 +45,36 @@ export class MMFPlayer {
   private state: PlayerState = 'idle';
   private startTime: number = 0;
   private pauseTime: number = 0;
-  private scheduledNotes: Array<{ source: OscillatorNode; gain: GainNode }> = [];
+  private scheduler: SongScheduler | null = null;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+  private voiceEngine: VoiceEngine;
+  private mixer = new ChannelMixer();
   private options: PlayerOptions;
 
+  // Tempo factor and pitch shift; song positions advance `rate` times as fast
+  // as the audio clock, so startTime is where position 0 falls at this rate
+  private rate = 1;
+  private transpose = 0;
+
+  // Loop state: the scheduler runs ahead of the playhead, so it keeps its own
+  // start time and the wraps the playhead has yet to reach
+  private loop: PlayerLoop | null;
+  private loopsRemaining = 0;
+  private schedulerStartTime = 0;
+  private scheduledTo = 0;
+  private pendingWraps: LoopWrap[] = [];
+
   constructor(options: PlayerOptions = {}) {
     this.options = options;
+    this.loop = options.loop ?? null;
+    this.voiceEngine = createVoiceEngine(options.synthMode ?? 'fm');
   }
 
   async load(mmfData: MMFData): Promise<void> {
-    this.mmfData = mmfData;
     this.stop(); // Clean up any existing playback
+    this.mmfData = mmfData;
+    this.scheduler = null;
+    this.mixer.reset();
   }
 
   async play(): Promise<void> {
@@ -42,6 +85,7 @@ export class MMFPlayer {
     // Initialize AudioContext if needed
     if (!this.audioContext) {
       this.audioContext = new AudioContext();
+      this.mixer.attach(this.audioContext);
     }
 
     // Resume if paused
@@ -57,50 +101,57 @@ export class MMFPlayer {
 
     this.setState('playing');
     this.startTime = this.audioContext.currentTime;
-    
-    // Schedule all notes
-    this.scheduleNotes();
-
-    // Start progress tracking
-    this.startProgressTracking();
-
-    // Schedule end callback
-    if (this.mmfData.duration > 0) {
-      setTimeout(() => {
-        if (this.state === 'playing') {
-          this.stop();
-          this.options.onEnd?.();
-        }
-      }, this.mmfData.duration);
-    }
+    this.resetLoopCount();
+    this.startScheduling(0);
   }
 
   pause(): void {
     if (this.state !== 'playing') return;
 
+    this.pauseTime = this.getCurrentTime() / 1000;
     this.setState('paused');
-    this.pauseTime = this.audioContext!.currentTime - this.startTime;
     
     // Stop all scheduled notes
-    this.clearScheduledNotes();
+    this.stopScheduling();
   }
 
   resume(): void {
     if (this.state !== 'paused' || !this.audioContext || !this.mmfData) return;
 
     this.setState('playing');
-    this.startTime = this.audioContext.currentTime - this.pauseTime;
+    this.startTime = this.audioContext.currentTime - this.pauseTime / this.rate;
     
-    // Reschedule remaining notes
-    this.scheduleNotes(this.pauseTime * 1000);
-    this.startProgressTracking();
+    // Continue scheduling from the paused position
+    this.startScheduling(this.pauseTime * 1000);
+  }
+
+  /**
+   * Jump to a position in milliseconds. While playing, notes are rescheduled
+   * from there, including notes that are still sounding at that point.
+   * Otherwise playback pauses at the position, so play() continues from it;
+   * a song that wasn't under way starts its loop count afresh.
+   */
+  seek(time: number): void {
+    if (!this.mmfData) return;
+
+    const position = Math.max(0, Math.min(time, this.mmfData.duration));
+    if (this.state === 'playing' && this.audioContext) {
+      this.startTime = this.audioContext.currentTime - position / 1000 / this.rate;
+      this.startScheduling(position);
+    } else {
+      if (this.state !== 'paused') this.resetLoopCount();
+      this.pauseTime = position / 1000;
+      this.setState('paused');
+    }
+
+    this.options.onProgress?.(this.mmfData.duration > 0 ? position / this.mmfData.duration : 0);
   }
 
   stop(): void {
     if (this.state === 'idle') return;
 
     this.setState('stopped');
-    this.clearScheduledNotes();
+    this.stopScheduling();
     this.startTime = 0;
     this.pauseTime = 0;
 
@@ -117,17 +168,115 @@ export class MMFPlayer {
   }
 
   getCurrentTime(): number {
+    if (this.state === 'paused') {
+      return this.pauseTime * 1000;
+    }
     if (!this.audioContext) return 0;
     
     if (this.state === 'playing') {
-      return (this.audioContext.currentTime - this.startTime) * 1000;
-    } else if (this.state === 'paused') {
-      return this.pauseTime * 1000;
+      const now = this.audioContext.currentTime;
+      let startTime = this.startTime;
+      for (const wrap of this.pendingWraps) {
+        if (now >= wrap.at) startTime = wrap.startTime;
+      }
+      return (now - startTime) * 1000 * this.rate;
     }
     
     return 0;
   }
 
+  getSynthMode(): SynthMode {
+    return this.voiceEngine.mode;
+  }
+
+  /**
+   * Switch voice engines. Takes effect for notes scheduled from now on, so a
+   * playing song is rescheduled from the current position.
+   */
+  setSynthMode(mode: SynthMode): void {
+    if (mode === this.voiceEngine.mode) return;
+    this.voiceEngine = createVoiceEngine(mode);
+
+    if (this.state === 'playing') {
+      this.startScheduling(this.getCurrentTime());
+    }
+  }
+
+  getPlaybackRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * Change the tempo (0.25× to 2×) without changing pitch. A playing song is
+   * rescheduled from the current position.
+   */
+  setPlaybackRate(rate: number): void {
+    const clamped = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+    if (clamped === this.rate) return;
+    this.reschedule(() => {
+      this.rate = clamped;
+    });
+  }
+
+  getTranspose(): number {
+    return this.transpose;
+  }
+
+  /** Shift pitch by semitones (-12 to 12); drums are not affected. */
+  setTranspose(semitones: number): void {
+    const clamped = Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, Math.round(semitones)));
+    if (clamped === this.transpose) return;
+    this.reschedule(() => {
+      this.transpose = clamped;
+    });
+  }
+
+  getLoop(): PlayerLoop | null {
+    return this.loop;
+  }
+
+  /**
+   * Turn looping on or off, or change its range or count. Applies to the
+   * song that is playing from the next pass over the loop end.
+   */
+  setLoop(loop: PlayerLoop | null): void {
+    this.loop = loop;
+    this.resetLoopCount();
+
+    // A wrap already scheduled may not match the new range
+    if (this.state === 'playing' && this.pendingWraps.length > 0) {
+      this.startScheduling(this.getCurrentTime());
+    }
+  }
+
+  getChannelMix(channel: number): ChannelMix {
+    return this.mixer.getMix(channel);
+  }
+
+  /** Mixer changes apply at once, including to notes already playing. */
+  setChannelMute(channel: number, mute: boolean): void {
+    this.mixer.setMute(channel, mute);
+  }
+
+  setChannelSolo(channel: number, solo: boolean): void {
+    this.mixer.setSolo(channel, solo);
+  }
+
+  /** Channel volume from 0 to 1, on top of the song's own volume changes. */
+  setChannelVolume(channel: number, volume: number): void {
+    this.mixer.setVolume(channel, volume);
+  }
+
+  /** Channel pan from -1 (left) to 1 (right), on top of the song's own panning. */
+  setChannelPan(channel: number, pan: number): void {
+    this.mixer.setPan(channel, pan);
+  }
+
+  /** Current peak level (0-1) of a channel, for meters. */
+  getChannelLevel(channel: number): number {
+    return this.mixer.getLevel(channel);
+  }
+
   getDuration(): number {
     return this.mmfData?.duration ?? 0;
   }
@@ -135,122 +284,124 @@ export class MMFPlayer {
   dispose(): void {
     this.stop();
     
+    this.mixer.disconnect();
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
     }
     
     this.mmfData = null;
+    this.scheduler = null;
   }
 
-  private scheduleNotes(fromTime: number = 0): void {
+  /**
+   * Start playing from a position (in milliseconds) at the current context
+   * time and run the scheduler loop.
+   */
+  private startScheduling(fromTime: number): void {
     if (!this.audioContext || !this.mmfData) return;
 
-    const now = this.audioContext.currentTime;
-    
-    for (const note of this.mmfData.notes) {
-      // Skip notes that have already played
-      if (note.time < fromTime) continue;
-
-      const startTime = now + (note.time - fromTime) / 1000;
-      const endTime = startTime + note.duration / 1000;
-
-      this.playNote(note, startTime, endTime);
+    // The scheduler caches wave buffers, so keep one per context and song
+    if (!this.scheduler) {
+      this.scheduler = new SongScheduler(
+        this.audioContext,
+        this.mmfData,
+        this.audioContext.destination,
+        (channel) => this.mixer.getInput(channel)
+      );
     }
+    this.stopScheduling();
+    this.scheduler.setRate(this.rate);
+    this.scheduler.setTranspose(this.transpose);
+    this.scheduler.start(this.voiceEngine, fromTime, this.audioContext.currentTime);
+    this.schedulerStartTime = this.startTime;
+    this.scheduledTo = fromTime;
+
+    this.tick();
+    this.ticker = setInterval(() => this.tick(), TICK_INTERVAL);
   }
 
-  private playNote(note: MMFNote, startTime: number, endTime: number): void {
-    if (!this.audioContext) return;
-
-    try {
-      // Create oscillator for the note
-      const oscillator = this.audioContext.createOscillator();
-      const gainNode = this.audioContext.createGain();
-
-      // Set frequency from MIDI note number
-      const frequency = this.midiNoteToFrequency(note.note);
-      oscillator.frequency.value = frequency;
-
-      // Use a simple waveform (could be enhanced with different timbres)
-      oscillator.type = 'square';
-
-      // Set volume based on velocity
-      const volume = note.velocity / 127 * MAX_VOLUME_MULTIPLIER;
-      gainNode.gain.setValueAtTime(volume, startTime);
-      
-      // Add envelope (ADSR)
-      const attackTime = 0.01;
-      const decayTime = 0.1;
-      const sustainLevel = volume * 0.7;
-      const releaseTime = 0.1;
-
-      gainNode.gain.linearRampToValueAtTime(volume, startTime + attackTime);
-      gainNode.gain.linearRampToValueAtTime(sustainLevel, startTime + attackTime + decayTime);
-      gainNode.gain.setValueAtTime(sustainLevel, endTime - releaseTime);
-      gainNode.gain.linearRampToValueAtTime(0.001, endTime);
-
-      // Connect nodes
-      oscillator.connect(gainNode);
-      gainNode.connect(this.audioContext.destination);
-
-      // Schedule start and stop
-      oscillator.start(startTime);
-      oscillator.stop(endTime);
-
-      // Track scheduled notes for cleanup
-      this.scheduledNotes.push({ source: oscillator, gain: gainNode });
-
-      // Clean up after note ends
-      oscillator.onended = () => {
-        const index = this.scheduledNotes.findIndex(n => n.source === oscillator);
-        if (index !== -1) {
-          this.scheduledNotes.splice(index, 1);
-        }
-        gainNode.disconnect();
-      };
-    } catch (error) {
-      console.error('Error playing note:', error);
+  /**
+   * Apply a setting that changes how notes are scheduled, keeping the playhead
+   * where it is. A playing song is rescheduled from there.
+   */
+  private reschedule(apply: () => void): void {
+    const position = this.getCurrentTime();
+    apply();
+
+    if (this.state === 'playing' && this.audioContext) {
+      this.startTime = this.audioContext.currentTime - position / 1000 / this.rate;
+      this.startScheduling(position);
     }
   }
 
-  private midiNoteToFrequency(note: number): number {
-    // MIDI note to frequency conversion
-    // A4 (MIDI note 69) = 440 Hz
-    return 440 * Math.pow(2, (note - 69) / 12);
+  private stopScheduling(): void {
+    if (this.ticker !== null) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+    this.scheduler?.clear();
+    // Wraps the playhead hasn't reached give their loops back
+    this.loopsRemaining += this.pendingWraps.length;
+    this.pendingWraps = [];
   }
 
-  private clearScheduledNotes(): void {
-    for (const { source, gain } of this.scheduledNotes) {
-      try {
-        source.stop();
-        source.disconnect();
-        gain.disconnect();
-      } catch (error) {
-        // Ignore errors when stopping already stopped notes
-      }
+  /**
+   * One pass of the loop: schedule the next window, wrapping at the loop end
+   * while loops remain, then move the playhead over wraps it has reached and
+   * end the song once the audio clock passes its end.
+   */
+  private tick(): void {
+    if (this.state !== 'playing' || !this.mmfData || !this.audioContext || !this.scheduler) return;
+
+    const now = this.audioContext.currentTime;
+    const horizon = now + SCHEDULE_AHEAD / 1000;
+    const loop = this.getLoopRange();
+
+    // Only wrap ranges the scheduler reaches from before their end
+    while (loop && this.loopsRemaining > 0 && this.scheduledTo <= loop.end &&
+           (horizon - this.schedulerStartTime) * 1000 * this.rate >= loop.end) {
+      this.scheduler.advance(loop.end);
+      const wrapAt = this.schedulerStartTime + loop.end / 1000 / this.rate;
+      this.schedulerStartTime = wrapAt - loop.start / 1000 / this.rate;
+      this.scheduler.jump(loop.start, wrapAt);
+      this.scheduledTo = loop.start;
+      this.pendingWraps.push({ at: wrapAt, startTime: this.schedulerStartTime });
+      this.loopsRemaining--;
     }
-    this.scheduledNotes = [];
-  }
 
-  private startProgressTracking(): void {
-    if (this.state !== 'playing' || !this.mmfData) return;
+    this.scheduledTo = (horizon - this.schedulerStartTime) * 1000 * this.rate;
+    this.scheduler.advance(this.scheduledTo);
 
-    const updateProgress = () => {
-      if (this.state !== 'playing') return;
+    while (this.pendingWraps.length > 0 && now >= this.pendingWraps[0].at) {
+      this.startTime = this.pendingWraps.shift()!.startTime;
+    }
+
+    const currentTime = this.getCurrentTime();
+    const { duration } = this.mmfData;
+    if (currentTime >= duration) {
+      this.options.onProgress?.(1);
+      this.stop();
+      this.options.onEnd?.();
+      return;
+    }
 
-      const currentTime = this.getCurrentTime();
-      const progress = this.mmfData!.duration > 0
-        ? currentTime / this.mmfData!.duration
-        : 0;
+    this.options.onProgress?.(duration > 0 ? currentTime / duration : 0);
+  }
 
-      this.options.onProgress?.(Math.min(progress, 1));
+  /** Loop range in effect, or null when not looping. */
+  private getLoopRange(): MMFLoop | null {
+    if (!this.loop || !this.mmfData) return null;
 
-      if (progress < 1) {
-        requestAnimationFrame(updateProgress);
-      }
-    };
+    const { duration } = this.mmfData;
+    const range = this.loop.range ?? { start: 0, end: duration };
+    const start = Math.max(0, range.start);
+    const end = Math.min(duration, range.end);
+    return end - start >= MIN_LOOP_LENGTH ? { start, end } : null;
+  }
 
-    requestAnimationFrame(updateProgress);
+  private resetLoopCount(): void {
+    this.loopsRemaining = Math.max(0, (this.loop?.count ?? Infinity) - 1);
   }
 
   private setState(newState: PlayerState): void {
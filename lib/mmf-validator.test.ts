@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { validateMMF } from './mmf-validator';
+import { FORMAT_MOBILE_COMPRESSED, type MMFData } from './mmf-parser';
+import { CHUNK_HEADER_SIZE } from './smaf-chunk';
+import { writeMMF } from './mmf-writer';
+
+function song(): ArrayBuffer {
+  const data: MMFData = {
+    metadata: {},
+    notes: [{ time: 0, note: 60, duration: 500, velocity: 100, channel: 0 }],
+    channelEvents: [],
+    duration: 500,
+    tempo: 120,
+    tempoMap: [{ tick: 0, time: 0, tempo: 120 }],
+    resolution: 48,
+    timeSignature: { numerator: 4, denominator: 4 },
+    voices: {},
+    audioEvents: [],
+    waves: {}
+  };
+  return writeMMF(data);
+}
+
+describe('validateMMF', () => {
+  it('rejects compressed Mobile Standard tracks', () => {
+    const buffer = song();
+    const bytes = new Uint8Array(buffer);
+    const trackStart = new TextDecoder().decode(bytes).indexOf('MTR') + CHUNK_HEADER_SIZE;
+    bytes[trackStart] = FORMAT_MOBILE_COMPRESSED;
+
+    const report = validateMMF(buffer);
+    expect(report.valid).toBe(false);
+    expect(report.issues).toContainEqual({
+      severity: 'error',
+      offset: trackStart,
+      message: 'Compressed Mobile Standard tracks are not supported'
+    });
+  });
+});
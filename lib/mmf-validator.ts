@@ -0,0 +1,167 @@
+/**
+ * MMF validator
+ * Checks the MMMD container (header, declared size, CRC, chunk layout) and
+ * collects the problems the parser finds inside tracks into one report
+ */
+
+import { formatChunkId, isAudioTrackId, isScoreTrackId, MMFData, MMFIssue, MMFParser, MMFParserOptions } from './mmf-parser';
+import { CHUNK_HEADER_SIZE, MMF_HEADER_SIZE, readId, readUInt32BE } from './smaf-chunk';
+import { smafCRC } from './crc';
+
+const CRC_SIZE = 2;
+
+// Chunks the player reads besides score and audio tracks
+const KNOWN_CHUNKS = ['CNTI', 'OPDA'];
+
+export interface ValidationChunk {
+  id: string;          // Raw chunk ID (format with formatChunkId for display)
+  offset: number;      // Offset of the chunk header
+  size: number;        // Declared data size
+  known: boolean;      // Whether the player reads this chunk
+}
+
+export interface ValidationCRC {
+  stored: number;
+  computed: number;
+  match: boolean;
+}
+
+export interface ValidationReport {
+  valid: boolean;        // True when there are no errors (warnings allowed)
+  fileSize: number;      // Actual file length in bytes
+  declaredSize?: number; // Container size from the MMMD header (bytes after the size field)
+  crc?: ValidationCRC;   // Undefined when the file has no CRC
+  chunks: ValidationChunk[];
+  issues: MMFIssue[];    // In byte offset order
+}
+
+export interface ValidatedMMF {
+  report: ValidationReport;
+  data: MMFData | null;  // Null when parsing failed
+  error?: string;        // Why parsing failed (also reported as an issue)
+}
+
+/**
+ * Validate an MMF file. Never throws: every problem, including parse
+ * failures, is reported as an issue. Parser options such as onProgress
+ * apply to the parse of the track contents.
+ */
+export function validateMMF(arrayBuffer: ArrayBuffer, options: MMFParserOptions = {}): ValidationReport {
+  return validateAndParseMMF(arrayBuffer, options).report;
+}
+
+/**
+ * Validate an MMF file and keep the song parsed on the way, so loading a file
+ * for playback parses it only once.
+ */
+export function validateAndParseMMF(arrayBuffer: ArrayBuffer, options: MMFParserOptions = {}): ValidatedMMF {
+  const data = new Uint8Array(arrayBuffer);
+  const issues: MMFIssue[] = [];
+  const chunks: ValidationChunk[] = [];
+  const report = (severity: MMFIssue['severity'], offset: number, message: string) => {
+    issues.push({ severity, offset, message });
+  };
+  const finish = (rest: Partial<ValidationReport> = {}): ValidationReport => ({
+    valid: !issues.some(issue => issue.severity === 'error'),
+    fileSize: data.length,
+    chunks,
+    issues: issues.sort((a, b) => a.offset - b.offset),
+    ...rest
+  });
+
+  // Files that aren't MMF at all are not parsed
+  const notMMF = (message: string): ValidatedMMF => {
+    report('error', 0, message);
+    return { report: finish(), data: null, error: message };
+  };
+
+  // Header
+  if (data.length < MMF_HEADER_SIZE) {
+    return notMMF('File is too short to contain an MMMD header');
+  }
+  if (readId(data, 0) !== 'MMMD') {
+    return notMMF('MMMD header not found');
+  }
+
+  // Declared vs actual size
+  const declaredSize = readUInt32BE(data, 4);
+  const actualSize = data.length - MMF_HEADER_SIZE;
+  let containerEnd = MMF_HEADER_SIZE + declaredSize;
+  const truncated = declaredSize > actualSize;
+  if (truncated) {
+    report('error', 4, `Declared size ${declaredSize} bytes exceeds the ${actualSize} bytes present (file is truncated)`);
+    containerEnd = data.length;
+  } else if (declaredSize < actualSize) {
+    report('warning', containerEnd, `${actualSize - declaredSize} bytes of trailing data after the MMMD container`);
+  }
+
+  // Chunk bounds and IDs
+  let position = MMF_HEADER_SIZE;
+  let intact = true; // False once the chunk layout can't be followed to the end
+  while (containerEnd - position >= CHUNK_HEADER_SIZE) {
+    const id = readId(data, position);
+    const size = readUInt32BE(data, position + 4);
+    if (!/^[\x20-\x7E]{3}/.test(id)) {
+      // Sizes can't be trusted past a garbage ID
+      report('error', position, `Invalid chunk ID "${formatChunkId(id)}"`);
+      intact = false;
+      break;
+    }
+
+    const known = KNOWN_CHUNKS.includes(id) || isScoreTrackId(id) || isAudioTrackId(id);
+    chunks.push({ id, offset: position, size, known });
+    if (!known) {
+      report('warning', position, `Unknown chunk ${formatChunkId(id)} is skipped`);
+    }
+
+    const dataEnd = position + CHUNK_HEADER_SIZE + size;
+    if (dataEnd > containerEnd) {
+      report('error', position, `Chunk ${formatChunkId(id)} (${size} bytes) runs ${dataEnd - containerEnd} bytes past the end of the container`);
+      intact = false;
+      break;
+    }
+    position = dataEnd;
+  }
+
+  // The two bytes left after the last chunk are the CRC of everything before them
+  let crc: ValidationCRC | undefined;
+  const remaining = containerEnd - position;
+  if (intact && remaining === CRC_SIZE) {
+    const stored = (data[position] << 8) | data[position + 1];
+    const computed = smafCRC(data.subarray(0, position));
+    crc = { stored, computed, match: stored === computed };
+    if (!crc.match && !truncated) {
+      // Handsets reject such files; this player does not need the CRC
+      report('warning', position, `CRC mismatch: stored 0x${hex(stored, 4)}, computed 0x${hex(computed, 4)}`);
+    }
+  } else if (intact && remaining === 0) {
+    if (!truncated) report('warning', containerEnd, 'CRC is missing after the last chunk');
+  } else if (intact) {
+    report('error', position, `Truncated chunk header (${remaining} bytes left)`);
+  }
+
+  if (chunks.length > 0 && chunks[0].id !== 'CNTI') {
+    report('warning', chunks[0].offset, 'The first chunk is not CNTI (content info)');
+  }
+  if (!chunks.some(chunk => isScoreTrackId(chunk.id) || isAudioTrackId(chunk.id))) {
+    report('warning', MMF_HEADER_SIZE, 'No score or audio track found');
+  }
+
+  // Track contents
+  const parser = new MMFParser(arrayBuffer, options);
+  let song: MMFData | null = null;
+  let error: string | undefined;
+  try {
+    song = parser.parse();
+  } catch (parseError) {
+    error = parseError instanceof Error ? parseError.message : String(parseError);
+    report('error', 0, error);
+  }
+  for (const issue of parser.getIssues()) issues.push(issue);
+
+  return { report: finish({ declaredSize, crc }), data: song, error };
+}
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
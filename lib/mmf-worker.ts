@@ -0,0 +1,19 @@
+/**
+ * MMF parser worker
+ * Entry point for the worker started by the functions in mmf-parser-async
+ */
+
+import { getTransferables, handleWorkerRequest, WorkerRequest, WorkerResponse } from './mmf-parser-async';
+
+// The DOM typings describe the page's global scope, not a worker's
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = (event) => {
+  const response = handleWorkerRequest(event.data, (progress) => scope.postMessage({ type: 'progress', progress }));
+  scope.postMessage(response, getTransferables(response));
+};
@@ -0,0 +1,241 @@
+/**
+ * MMF (SMAF) writer
+ * Builds an MMMD file from MMFData: a CNTI content info chunk, one Mobile
+ * Standard score track and the trailing CRC
+ */
+
+import {
+  FORMAT_MOBILE_STANDARD,
+  MMFData,
+  MMFVoice,
+  TIMEBASE_MS,
+  VOICE_EXCLUSIVE_HEADER
+} from './mmf-parser';
+import { CODE_TYPE_SHIFT_JIS, CONTENT_TAGS, MetadataTextField } from './content-info';
+import { smafCRC } from './crc';
+import { channelEventMessages } from './midi-writer';
+import { encodeShiftJIS } from './shift-jis';
+
+export const DEFAULT_TIMEBASE = 4; // Milliseconds per tick for durations and gate times
+
+const SEQUENCE_STREAM = 0x00;
+const SCORE_TRACK_NUMBER = 0x05; // First Mobile Standard score track
+const CHANNEL_STATUS_SIZE = 16;  // One byte per channel, 0 = unspecified
+
+// CNTI header: YAMAHA class, ringtone type, Shift_JIS text, no copy restrictions
+const CONTENT_CLASS = 0x00;
+const CONTENT_TYPE = 0x00;
+const COPY_STATUS = 0x00;
+const COPY_COUNT = 0x00;
+
+// Controllers go before notes that start on the same tick
+const ORDER_CONTROL = 0;
+const ORDER_NOTE = 1;
+
+export interface MMFWriterOptions {
+  timeBaseD?: number;  // Milliseconds per duration tick (1, 2, 4, 5, 10, 20, 40 or 50)
+  timeBaseG?: number;  // Milliseconds per gate time tick (same values)
+}
+
+interface SequenceEvent {
+  tick: number;
+  order: number;
+  data: number[];
+}
+
+export class MMFWriter {
+  private mmfData: MMFData;
+  private timeBaseD: number;
+  private timeBaseG: number;
+
+  constructor(mmfData: MMFData, options: MMFWriterOptions = {}) {
+    this.mmfData = mmfData;
+    this.timeBaseD = options.timeBaseD ?? DEFAULT_TIMEBASE;
+    this.timeBaseG = options.timeBaseG ?? DEFAULT_TIMEBASE;
+
+    if (timeBaseCode(this.timeBaseD) === undefined || timeBaseCode(this.timeBaseG) === undefined) {
+      throw new Error(`Unsupported time base: ${this.timeBaseD} / ${this.timeBaseG} ms`);
+    }
+  }
+
+  write(): ArrayBuffer {
+    const body: number[] = [];
+    pushChunk(body, 'CNTI', this.writeContentInfo());
+    pushChunk(body, 'MTR' + String.fromCharCode(SCORE_TRACK_NUMBER), this.writeScoreTrack());
+
+    // MMMD size covers the chunks and the CRC
+    const file: number[] = [];
+    pushString(file, 'MMMD');
+    pushUInt32(file, body.length + 2);
+    pushBytes(file, body);
+
+    const crc = smafCRC(new Uint8Array(file));
+    file.push(crc >> 8, crc & 0xFF);
+    return new Uint8Array(file).buffer;
+  }
+
+  /**
+   * Content info: the CNTI header, then one "XX:value," tag per metadata field
+   * in Shift_JIS. Commas and backslashes in values are escaped with a backslash.
+   */
+  private writeContentInfo(): number[] {
+    const { metadata } = this.mmfData;
+    const bytes: number[] = [CONTENT_CLASS, CONTENT_TYPE, CODE_TYPE_SHIFT_JIS, COPY_STATUS, COPY_COUNT];
+    const written = new Set<MetadataTextField>();
+
+    for (const [tag, field] of CONTENT_TAGS) {
+      const text = metadata[field];
+      if (!text || written.has(field)) continue;
+      written.add(field);
+      pushBytes(bytes, encodeShiftJIS(`${tag}:${text.replace(/[\\,]/g, '\\$&')},`));
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Mobile Standard score track: header, setup data with the embedded voices
+   * and the sequence data.
+   */
+  private writeScoreTrack(): number[] {
+    const bytes: number[] = [
+      FORMAT_MOBILE_STANDARD,
+      SEQUENCE_STREAM,
+      timeBaseCode(this.timeBaseD)!,
+      timeBaseCode(this.timeBaseG)!,
+      ...new Array<number>(CHANNEL_STATUS_SIZE).fill(0)
+    ];
+
+    const setup = this.writeSetupData();
+    if (setup.length > 0) pushChunk(bytes, 'Mtsu', setup);
+    pushChunk(bytes, 'Mtsq', this.writeSequenceData());
+    return bytes;
+  }
+
+  private writeSetupData(): number[] {
+    const bytes: number[] = [];
+    const written = new Set<MMFVoice>();
+
+    for (const voice of Object.values(this.mmfData.voices)) {
+      if (written.has(voice)) continue;
+      written.add(voice);
+      const data = [...encodeVoiceExclusive(voice), 0xF7];
+      bytes.push(0xF0, ...variableLength(data.length), ...data);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Sequence data: delta time in duration ticks, then a MIDI-like message.
+   * Notes carry their velocity and a gate time in gate ticks.
+   */
+  private writeSequenceData(): number[] {
+    const toTick = (ms: number) => Math.round(ms / this.timeBaseD);
+    const events: SequenceEvent[] = [];
+
+    for (const event of this.mmfData.channelEvents) {
+      for (const data of channelEventMessages(event)) {
+        events.push({ tick: toTick(event.time), order: ORDER_CONTROL, data });
+      }
+    }
+
+    for (const note of this.mmfData.notes) {
+      // Notes without a gate time are dropped on playback, so keep at least one tick
+      const gateTime = Math.max(1, Math.round(note.duration / this.timeBaseG));
+      events.push({
+        tick: toTick(note.time),
+        order: ORDER_NOTE,
+        data: [0x90 | (note.channel & 0x0F), note.note & 0x7F, note.velocity & 0x7F, ...variableLength(gateTime)]
+      });
+    }
+
+    const sorted = events
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => a.event.tick - b.event.tick || a.event.order - b.event.order || a.index - b.index)
+      .map(({ event }) => event);
+
+    const bytes: number[] = [];
+    let lastTick = 0;
+    for (const event of sorted) {
+      pushBytes(bytes, variableLength(event.tick - lastTick));
+      pushBytes(bytes, event.data);
+      lastTick = event.tick;
+    }
+
+    // Wait for the last note to finish, then end of sequence
+    const endTick = toTick(this.mmfData.duration);
+    pushBytes(bytes, variableLength(Math.max(0, endTick - lastTick)));
+    bytes.push(0xFF, 0x2F, 0x00);
+    return bytes;
+  }
+}
+
+/**
+ * Encode an MA-3 voice exclusive message body (the inverse of the parser's
+ * decodeVoiceExclusive).
+ */
+function encodeVoiceExclusive(voice: MMFVoice): number[] {
+  const bytes = [
+    ...VOICE_EXCLUSIVE_HEADER,
+    voice.bank & 0x7F,
+    0x00,
+    voice.program & 0x7F,
+    voice.drumNote & 0x7F,
+    (voice.panpot & 0x1F) << 3,
+    ((voice.lfo & 0x03) << 6) | (voice.pitchEnvelope ? 0x20 : 0) | (voice.algorithm & 0x07)
+  ];
+
+  for (const op of voice.operators) {
+    bytes.push(
+      ((op.sustainRate & 0x0F) << 4) | (op.ignoreKeyOff ? 0x08 : 0) | (op.sustain ? 0x02 : 0),
+      ((op.releaseRate & 0x0F) << 4) | (op.decayRate & 0x0F),
+      ((op.attackRate & 0x0F) << 4) | (op.sustainLevel & 0x0F),
+      ((op.totalLevel & 0x3F) << 2) | (op.keyScaleLevel & 0x03),
+      ((op.tremoloDepth & 0x03) << 5) | (op.tremolo ? 0x10 : 0) | ((op.vibratoDepth & 0x03) << 1) | (op.vibrato ? 0x01 : 0),
+      ((op.multiplier & 0x0F) << 4) | (op.detune & 0x07),
+      ((op.waveform & 0x1F) << 3) | (op.feedback & 0x07)
+    );
+  }
+
+  return bytes;
+}
+
+function timeBaseCode(msPerTick: number): number | undefined {
+  const entry = Object.entries(TIMEBASE_MS).find(([, ms]) => ms === msPerTick);
+  return entry ? Number(entry[0]) : undefined;
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7F];
+  value >>>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7F) | 0x80);
+    value >>>= 7;
+  }
+  return bytes;
+}
+
+function pushChunk(bytes: number[], id: string, data: number[]): void {
+  pushString(bytes, id);
+  pushUInt32(bytes, data.length);
+  pushBytes(bytes, data);
+}
+
+function pushString(bytes: number[], value: string): void {
+  for (let i = 0; i < value.length; i++) bytes.push(value.charCodeAt(i));
+}
+
+function pushUInt32(bytes: number[], value: number): void {
+  bytes.push((value >>> 24) & 0xFF, (value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF);
+}
+
+// Element by element, since spreading a large array overflows the call stack
+function pushBytes(bytes: number[], data: ArrayLike<number>): void {
+  for (let i = 0; i < data.length; i++) bytes.push(data[i]);
+}
+
+export function writeMMF(mmfData: MMFData, options: MMFWriterOptions = {}): ArrayBuffer {
+  const writer = new MMFWriter(mmfData, options);
+  return writer.write();
+}
@@ -0,0 +1,66 @@
+/**
+ * Offline renderer
+ * Renders a parsed song to audio faster than real time with an OfflineAudioContext,
+ * using the same scheduler and voice engines as live playback. Without Web Audio
+ * (e.g. Node), WAV files are rendered by the software renderer instead.
+ */
+
+import { MMFData } from './mmf-parser';
+import { createVoiceEngine, SynthMode } from './voice-engine';
+import { SongScheduler } from './song-scheduler';
+import { encodeWAV } from './wav-encoder';
+import { renderSongSamples } from './software-renderer';
+
+export const DEFAULT_RENDER_SAMPLE_RATE = 44100;
+export const DEFAULT_RENDER_CHANNELS = 2;
+
+const RELEASE_TAIL = 2; // Seconds rendered after the last note so releases can ring out
+
+export interface RenderOptions {
+  sampleRate?: number;    // Output sample rate in Hz (default 44100)
+  channels?: number;      // 1 (mono, down-mixed) or 2 (stereo, default)
+  synthMode?: SynthMode;  // Voice engine used for rendering (default 'fm')
+}
+
+/**
+ * Render a song to an AudioBuffer.
+ */
+export async function renderMMF(mmfData: MMFData, options: RenderOptions = {}): Promise<AudioBuffer> {
+  const sampleRate = options.sampleRate ?? DEFAULT_RENDER_SAMPLE_RATE;
+  const channels = options.channels ?? DEFAULT_RENDER_CHANNELS;
+  const length = renderLength(mmfData, sampleRate);
+
+  const context = new OfflineAudioContext(channels, length, sampleRate);
+  const scheduler = new SongScheduler(context, mmfData);
+  scheduler.schedule(createVoiceEngine(options.synthMode ?? 'fm'), 0, 0);
+
+  return context.startRendering();
+}
+
+/**
+ * Render a song and encode it as a 16-bit PCM WAV file, with the software
+ * renderer where there is no OfflineAudioContext.
+ */
+export async function renderMMFToWAV(mmfData: MMFData, options: RenderOptions = {}): Promise<ArrayBuffer> {
+  if (typeof OfflineAudioContext === 'undefined') {
+    const sampleRate = options.sampleRate ?? DEFAULT_RENDER_SAMPLE_RATE;
+    const samples = renderSongSamples(mmfData, {
+      sampleRate,
+      channels: options.channels ?? DEFAULT_RENDER_CHANNELS,
+      length: renderLength(mmfData, sampleRate),
+      synthMode: options.synthMode ?? 'fm'
+    });
+    return encodeWAV(samples, sampleRate);
+  }
+
+  const buffer = await renderMMF(mmfData, options);
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    channels.push(buffer.getChannelData(ch));
+  }
+  return encodeWAV(channels, buffer.sampleRate);
+}
+
+function renderLength(mmfData: MMFData, sampleRate: number): number {
+  return Math.ceil((mmfData.duration / 1000 + RELEASE_TAIL) * sampleRate);
+}
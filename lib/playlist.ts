@@ -0,0 +1,253 @@
+/**
+ * Playlist
+ * Song files queued for playback: collecting dropped files and folders,
+ * parsing each file once, and choosing the next track for shuffle and repeat
+ */
+
+import { MMFData } from './mmf-parser';
+import { parseMIDI } from './midi-parser';
+import { ValidationReport } from './mmf-validator';
+import { validateAndParseMMFAsync } from './mmf-parser-async';
+import { extractZipEntry, readZipEntries } from './zip';
+
+const MMF_EXTENSIONS = ['.mmf', '.smaf'];
+const MIDI_EXTENSIONS = ['.mid', '.midi'];
+const ARCHIVE_EXTENSION = '.zip';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlaylistFile {
+  file: File;
+  path: string;  // Path within a dropped folder, or the file name
+}
+
+export interface UnpackedArchive {
+  files: PlaylistFile[];
+  errors: string[];  // Song entries that couldn't be extracted
+}
+
+export interface PlaylistTrack extends PlaylistFile {
+  id: number;
+  title?: string;     // Song title from the metadata, once parsed
+  duration?: number;  // Milliseconds, once parsed
+  valid?: boolean;    // Undefined until parsed; false on parse or container errors
+  libraryId?: number; // Song ID in the library, once stored there
+}
+
+export interface ParsedSong {
+  data: MMFData | null;              // Null when parsing failed
+  report: ValidationReport | null;   // Container check; null for MIDI files
+  buffer: ArrayBuffer;               // File contents; empty when the file couldn't be read
+  isMIDI: boolean;
+  error?: string;                    // Why parsing failed
+}
+
+export interface ParseSongOptions {
+  onProgress?: (progress: number) => void;  // 0-1
+  signal?: AbortSignal;
+}
+
+// Pending parse in a SongCache
+interface PendingSong {
+  controller: AbortController;
+  listeners: Set<(progress: number) => void>;
+}
+
+let lastTrackId = 0;
+
+export function isMMFFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return MMF_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+export function isMIDIFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return MIDI_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+/** Whether a file name has an extension the player reads. */
+export function isSongFile(name: string): boolean {
+  return isMIDIFile(name) || isMMFFile(name);
+}
+
+export function isArchiveFile(name: string): boolean {
+  return name.toLowerCase().endsWith(ARCHIVE_EXTENSION);
+}
+
+/**
+ * Song files in a ZIP archive, from every folder, with paths under the
+ * archive's path. Throws when the archive itself can't be read.
+ */
+export async function unpackArchive({ file, path }: PlaylistFile): Promise<UnpackedArchive> {
+  const buffer = await file.arrayBuffer();
+  const files: PlaylistFile[] = [];
+  const errors: string[] = [];
+
+  for (const entry of readZipEntries(buffer)) {
+    if (entry.directory || !isSongFile(entry.path)) continue;
+    try {
+      const contents = extractZipEntry(buffer, entry);
+      const name = entry.path.slice(entry.path.lastIndexOf('/') + 1);
+      files.push({ file: new File([contents], name), path: `${path}/${entry.path}` });
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+  return { files, errors };
+}
+
+export function createTrack({ file, path }: PlaylistFile): PlaylistTrack {
+  return { id: ++lastTrackId, file, path };
+}
+
+/**
+ * Validate and parse a song file, MMF files in a worker. Failures are in the
+ * result; the promise only rejects when the signal aborts.
+ */
+export async function parseSongFile(file: File, { onProgress, signal }: ParseSongOptions = {}): Promise<ParsedSong> {
+  const isMIDI = isMIDIFile(file.name);
+  let buffer = new ArrayBuffer(0);
+  try {
+    buffer = await file.arrayBuffer();
+    signal?.throwIfAborted();
+    if (isMIDI) {
+      return { data: parseMIDI(buffer), report: null, buffer, isMIDI };
+    }
+
+    const result = await validateAndParseMMFAsync(buffer, { signal, onProgress });
+    return { data: result.data, report: result.report, buffer, isMIDI, error: result.error };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    return { data: null, report: null, buffer, isMIDI, error: message };
+  }
+}
+
+/** Copy of a track with the list details of its parsed song filled in. */
+export function summarizeTrack(track: PlaylistTrack, song: ParsedSong): PlaylistTrack {
+  return {
+    ...track,
+    title: song.data?.metadata.title || undefined,
+    duration: song.data?.duration,
+    valid: song.data !== null && (song.report?.valid ?? true)
+  };
+}
+
+/**
+ * Parsed songs by track, so switching tracks doesn't parse a file again.
+ * Requests for a track still being parsed share the same parse, and all
+ * their progress callbacks are called.
+ */
+export class SongCache {
+  private songs = new Map<number, Promise<ParsedSong>>();
+  private pending = new Map<number, PendingSong>();
+
+  get(track: PlaylistTrack, onProgress?: (progress: number) => void): Promise<ParsedSong> {
+    const existing = this.songs.get(track.id);
+    if (existing) {
+      if (onProgress) this.pending.get(track.id)?.listeners.add(onProgress);
+      return existing;
+    }
+
+    const pending: PendingSong = { controller: new AbortController(), listeners: new Set(onProgress ? [onProgress] : []) };
+    const song = parseSongFile(track.file, {
+      signal: pending.controller.signal,
+      onProgress: (progress) => pending.listeners.forEach((listener) => listener(progress))
+    });
+    this.songs.set(track.id, song);
+    this.pending.set(track.id, pending);
+
+    const settle = (cancelled: boolean) => {
+      if (this.pending.get(track.id) === pending) this.pending.delete(track.id);
+      // A cancelled parse is started again by the next get()
+      if (cancelled && this.songs.get(track.id) === song) this.songs.delete(track.id);
+    };
+    song.then(() => settle(false), () => settle(true));
+    return song;
+  }
+
+  /** Stop the parses in progress. Their promises reject with an AbortError. */
+  cancel(): void {
+    for (const { controller } of this.pending.values()) controller.abort();
+  }
+
+  delete(id: number): void {
+    this.pending.get(id)?.controller.abort();
+    this.songs.delete(id);
+  }
+
+  clear(): void {
+    this.cancel();
+    this.songs.clear();
+  }
+}
+
+/**
+ * Files in a drop, including everything inside dropped folders, sorted by
+ * path. Must be called while the drop event is being handled.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<PlaylistFile[]> {
+  // Entries have to be taken before the event handler returns
+  const entries = [...dataTransfer.items]
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return [...dataTransfer.files].map(file => ({ file, path: file.name }));
+  }
+
+  const files: PlaylistFile[] = [];
+  for (const entry of entries as FileSystemEntry[]) {
+    await collectEntry(entry, '', files);
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+}
+
+async function collectEntry(entry: FileSystemEntry, parent: string, files: PlaylistFile[]): Promise<void> {
+  const path = parent ? `${parent}/${entry.name}` : entry.name;
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push({ file, path });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, path, files);
+    }
+  }
+}
+
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the entries in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+/** Track IDs in random order, with `first` (e.g. the current track) kept in front. */
+export function shuffleTracks(ids: number[], first?: number): number[] {
+  const shuffled = ids.filter(id => id !== first);
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return first !== undefined && ids.includes(first) ? [first, ...shuffled] : shuffled;
+}
+
+/**
+ * The track before (step -1) or after (step 1) the current one in play order,
+ * wrapping around at the ends when `wrap` is set. Null when there is none.
+ */
+export function adjacentTrack(order: number[], current: number | null, step: 1 | -1, wrap: boolean): number | null {
+  if (order.length === 0) return null;
+
+  const index = current === null ? -1 : order.indexOf(current);
+  if (index < 0) return order[step > 0 ? 0 : order.length - 1];
+
+  const next = index + step;
+  if (next >= 0 && next < order.length) return order[next];
+  return wrap ? order[(next + order.length) % order.length] : null;
+}
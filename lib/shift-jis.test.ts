@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { decodeShiftJIS, encodeShiftJIS } from './shift-jis';
+
+describe('decodeShiftJIS', () => {
+  // Node.js with full ICU maps the codes as browsers do
+  const platform = new TextDecoder('shift_jis');
+
+  it('matches the platform decoder for every double-byte code', () => {
+    const fatal = new TextDecoder('shift_jis', { fatal: true });
+    const attempt = (decode: () => string) => {
+      try {
+        return decode();
+      } catch {
+        return null;
+      }
+    };
+
+    for (let lead = 0x81; lead <= 0xFC; lead++) {
+      if (lead > 0x9F && lead < 0xE0) continue;
+      for (let trail = 0x40; trail <= 0xFC; trail++) {
+        if (trail === 0x7F) continue;
+        const data = new Uint8Array([lead, trail]);
+        expect(attempt(() => decodeShiftJIS(data, true)), `0x${lead.toString(16)}${trail.toString(16)}`)
+          .toBe(attempt(() => fatal.decode(data)));
+      }
+    }
+  });
+
+  it('decodes ASCII, half-width katakana and invalid bytes', () => {
+    const data = new Uint8Array([0x41, 0x5C, 0x7E, 0xB1, 0xDF, 0xA0, 0xFD, 0x81, 0x41, 0x82, 0x20, 0x88]);
+    expect(decodeShiftJIS(data)).toBe(platform.decode(data));
+    expect(decodeShiftJIS(data)).toBe('A\\~ｱﾟ��、� �');
+  });
+
+  it('throws on invalid bytes when fatal', () => {
+    expect(() => decodeShiftJIS(new Uint8Array([0x82, 0xA0, 0x82]), true)).toThrow(TypeError);
+    expect(decodeShiftJIS(new Uint8Array([0x82, 0xA0]), true)).toBe('あ');
+  });
+});
+
+describe('encodeShiftJIS', () => {
+  it('round-trips Japanese text', () => {
+    const text = '着メロ「ﾃｽﾄ」①Ⅹ～ABC';
+    expect(decodeShiftJIS(encodeShiftJIS(text))).toBe(text);
+    expect(Array.from(encodeShiftJIS('あｱA'))).toEqual([0x82, 0xA0, 0xB1, 0x41]);
+  });
+
+  it('writes characters without a code as ?', () => {
+    expect(Array.from(encodeShiftJIS('é😀'))).toEqual([0x3F, 0x3F]);
+  });
+});
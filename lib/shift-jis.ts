@@ -0,0 +1,130 @@
+/**
+ * Shift_JIS codec
+ * Decodes and encodes Windows Shift_JIS from a built-in table, so text reads
+ * the same on runtimes whose TextDecoder lacks Shift_JIS (e.g. Node.js built
+ * without full ICU)
+ */
+
+import { JIS_ROWS } from './shift-jis-table';
+
+const CELLS_PER_ROW = 94;
+const CELLS_PER_LEAD = 188;    // Two JIS rows per lead byte
+const POINTER_COUNT = 11280;   // Lead bytes 0x81-0x9F and 0xE0-0xFC
+const USER_DEFINED_START = 8836;  // Lead bytes 0xF0-0xF9 map to private use characters
+const USER_DEFINED_END = 10715;
+const HALF_WIDTH_START = 0xA1;
+const HALF_WIDTH_END = 0xDF;
+const REPLACEMENT = '\uFFFD';
+
+let decodeTable: Array<string | undefined> | null = null;  // Characters by pointer
+let encodeTable: Map<string, number[]> | null = null;
+
+/**
+ * Decode Shift_JIS bytes as the WHATWG Encoding Standard does. Invalid bytes
+ * become U+FFFD, or throw a TypeError when fatal is set, as with TextDecoder.
+ */
+export function decodeShiftJIS(bytes: Uint8Array, fatal: boolean = false): string {
+  const table = getDecodeTable();
+  let text = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte <= 0x80) {
+      text += String.fromCharCode(byte);
+      continue;
+    }
+    if (byte >= HALF_WIDTH_START && byte <= HALF_WIDTH_END) {
+      text += String.fromCharCode(0xFF61 + byte - HALF_WIDTH_START);
+      continue;
+    }
+
+    const trail = bytes[i + 1];
+    const pointer = isLeadByte(byte) && trail !== undefined ? toPointer(byte, trail) : null;
+    const char = pointer === null ? undefined : table[pointer];
+    if (char) {
+      text += char;
+      i++;
+      continue;
+    }
+
+    if (fatal) throw new TypeError('Invalid Shift_JIS data');
+    text += REPLACEMENT;
+    // An ASCII trail byte is read again on its own
+    if (isLeadByte(byte) && trail !== undefined && trail >= 0x80) i++;
+  }
+
+  return text;
+}
+
+/**
+ * Encode text as Shift_JIS. Characters without a Shift_JIS code become '?'.
+ */
+export function encodeShiftJIS(text: string): Uint8Array {
+  const table = getEncodeTable();
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+      continue;
+    }
+    const encoded = table.get(char);
+    if (encoded) {
+      bytes.push(...encoded);
+    } else {
+      bytes.push(0x3F);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+function getDecodeTable(): Array<string | undefined> {
+  if (decodeTable) return decodeTable;
+  decodeTable = new Array<string | undefined>(POINTER_COUNT);
+
+  for (const [row, chars] of Object.entries(JIS_ROWS)) {
+    const start = (Number(row) - 1) * CELLS_PER_ROW;
+    for (let cell = 0; cell < chars.length; cell++) {
+      if (chars[cell] !== REPLACEMENT) decodeTable[start + cell] = chars[cell];
+    }
+  }
+  for (let pointer = USER_DEFINED_START; pointer <= USER_DEFINED_END; pointer++) {
+    decodeTable[pointer] = String.fromCharCode(0xE000 + pointer - USER_DEFINED_START);
+  }
+
+  return decodeTable;
+}
+
+function getEncodeTable(): Map<string, number[]> {
+  if (encodeTable) return encodeTable;
+  encodeTable = new Map();
+
+  for (let byte = HALF_WIDTH_START; byte <= HALF_WIDTH_END; byte++) {
+    encodeTable.set(String.fromCharCode(0xFF61 + byte - HALF_WIDTH_START), [byte]);
+  }
+
+  // Keep the first code for characters mapped more than once (e.g. NEC/IBM extensions)
+  getDecodeTable().forEach((char, pointer) => {
+    if (char && !encodeTable!.has(char)) encodeTable!.set(char, fromPointer(pointer));
+  });
+
+  return encodeTable;
+}
+
+function isLeadByte(byte: number): boolean {
+  return (byte >= 0x81 && byte <= 0x9F) || (byte >= 0xE0 && byte <= 0xFC);
+}
+
+// Trail bytes run 0x40-0x7E and 0x80-0xFC
+function toPointer(lead: number, trail: number): number | null {
+  if (trail < 0x40 || trail === 0x7F || trail > 0xFC) return null;
+  return (lead - (lead < 0xA0 ? 0x81 : 0xC1)) * CELLS_PER_LEAD + trail - (trail < 0x7F ? 0x40 : 0x41);
+}
+
+function fromPointer(pointer: number): number[] {
+  const lead = Math.floor(pointer / CELLS_PER_LEAD);
+  const trail = pointer % CELLS_PER_LEAD;
+  return [lead + (lead < 0x1F ? 0x81 : 0xC1), trail + (trail < 0x3F ? 0x40 : 0x41)];
+}
@@ -0,0 +1,20 @@
+/**
+ * SMAF chunk layout
+ * The file is an 'MMMD' container of chunks, each a four-character ID and a
+ * 32-bit big-endian size followed by its data. Shared by the parser,
+ * validator, inspector and content info decoder.
+ */
+
+export const MMF_HEADER_SIZE = 8;    // 'MMMD' + 32-bit size
+export const CHUNK_HEADER_SIZE = 8;  // Chunk ID + 32-bit size
+
+/**
+ * Four-character chunk ID at offset.
+ */
+export function readId(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+export function readUInt32BE(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { renderSongSamples, SoftwareRenderSettings } from './software-renderer';
+import { voiceKey, type MMFChannelEvent, type MMFData, type MMFNote, type MMFOperator } from './mmf-parser';
+
+const SETTINGS: SoftwareRenderSettings = { sampleRate: 8000, channels: 2, length: 8000 * 3, synthMode: 'fm' };
+
+function song(notes: MMFNote[], channelEvents: MMFChannelEvent[] = []): MMFData {
+  return {
+    metadata: {},
+    notes,
+    channelEvents,
+    duration: 2000,
+    tempo: 120,
+    tempoMap: [{ tick: 0, time: 0, tempo: 120 }],
+    resolution: 48,
+    timeSignature: { numerator: 4, denominator: 4 },
+    voices: {},
+    audioEvents: [],
+    waves: {}
+  };
+}
+
+describe('renderSongSamples', () => {
+  it('renders drums to the same samples every time', () => {
+    // Snare and hi-hat on the percussion channel use noise
+    const drums = song([
+      { time: 0, note: 38, duration: 100, velocity: 120, channel: 9 },
+      { time: 500, note: 42, duration: 100, velocity: 100, channel: 9 }
+    ]);
+    const first = renderSongSamples(drums, SETTINGS);
+    const second = renderSongSamples(drums, SETTINGS);
+
+    expect(first[0].some(sample => sample !== 0)).toBe(true);
+    expect(second).toEqual(first);
+  });
+
+  it('picks up channel automation in the middle of a long run of events', () => {
+    // A note late in a dense run of pitch bend events sounds the same as one
+    // with a single bend event before it
+    const bends: MMFChannelEvent[] = [];
+    for (let time = 0; time < 2000; time += 2) {
+      bends.push({ time, channel: 0, type: 'pitchBend', value: 4000 });
+    }
+    const note: MMFNote = { time: 1500, note: 69, duration: 200, velocity: 100, channel: 0 };
+
+    const dense = renderSongSamples(song([note], bends), SETTINGS);
+    const single = renderSongSamples(song([note], [{ time: 0, channel: 0, type: 'pitchBend', value: 4000 }]), SETTINGS);
+
+    expect(dense[0].some(sample => sample !== 0)).toBe(true);
+    expect(dense).toEqual(single);
+  });
+
+  it('bends embedded FM voices whose operators have no vibrato', () => {
+    const operator: MMFOperator = {
+      multiplier: 1, detune: 0, totalLevel: 0, keyScaleLevel: 0,
+      attackRate: 15, decayRate: 0, sustainLevel: 0, sustainRate: 0, releaseRate: 8,
+      sustain: true, ignoreKeyOff: false, feedback: 0, waveform: 0,
+      vibrato: false, vibratoDepth: 0, tremolo: false, tremoloDepth: 0
+    };
+    const voices = {
+      [voiceKey(0, 0)]: {
+        bank: 0, program: 0, drumNote: 0, panpot: 15, lfo: 0, pitchEnvelope: false,
+        algorithm: 0, operators: [operator, operator]
+      }
+    };
+    const note: MMFNote = { time: 0, note: 69, duration: 500, velocity: 100, channel: 0 };
+
+    const straight = renderSongSamples({ ...song([note]), voices }, SETTINGS);
+    const bent = renderSongSamples({ ...song([note], [{ time: 0, channel: 0, type: 'pitchBend', value: 4096 }]), voices }, SETTINGS);
+
+    expect(straight[0].some(sample => sample !== 0)).toBe(true);
+    expect(bent).not.toEqual(straight);
+  });
+});
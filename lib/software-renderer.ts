@@ -0,0 +1,642 @@
+/**
+ * Software renderer
+ * Renders a parsed song to samples in plain TypeScript, for runtimes without
+ * Web Audio such as Node. Follows SongScheduler and the voice engines: the same
+ * channel buses, FM algorithms and envelopes, bank presets and drum kit.
+ */
+
+import { MMFAudioEvent, MMFData, MMFVoice, voiceKey, waveKey } from './mmf-parser';
+import {
+  applyChannelEvent,
+  channelGain,
+  channelPan,
+  ChannelState,
+  createChannelState,
+  pitchBendCents,
+  vibratoCents
+} from './channel-state';
+import { DrumPreset, getDrumPreset, getInstrumentPreset, InstrumentPreset, isPercussion } from './instrument-bank';
+import { MAX_VOLUME_MULTIPLIER, NOISE_BUFFER_SECONDS, SynthMode } from './voice-engine';
+import {
+  ALGORITHMS,
+  EnvelopeParam,
+  FEEDBACK_DELAY,
+  feedbackIndex,
+  MAX_MODULATION_INDEX,
+  operatorLevel,
+  scheduleEnvelope,
+  WAVEFORMS
+} from './fm-synth';
+import { AUDIO_TRACK_VOLUME, VIBRATO_RATE } from './song-scheduler';
+
+// Drum noise comes from a fixed seed, so a song always renders to the same samples
+const NOISE_SEED = 0x5EED;
+
+// Oscillator waveforms over one period (phase 0..1)
+const OSCILLATOR_SHAPES: Partial<Record<OscillatorType, (phase: number) => number>> = {
+  sine: phase => Math.sin(2 * Math.PI * phase),
+  square: phase => (phase < 0.5 ? 1 : -1),
+  sawtooth: phase => (phase < 0.5 ? 2 * phase : 2 * phase - 2),
+  triangle: phase => (phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4),
+};
+
+export interface SoftwareRenderSettings {
+  sampleRate: number;
+  channels: number;     // 1 (mono, down-mixed) or 2 (stereo)
+  length: number;       // Frames to render
+  synthMode: SynthMode;
+}
+
+// Per-channel automation, as on a SongScheduler channel bus
+interface ChannelBus {
+  gain: ParamTimeline;
+  pan: ParamTimeline;
+  bend: ParamTimeline;     // Cents
+  vibrato: ParamTimeline;  // LFO depth in cents
+}
+
+interface SoftwareVoiceRequest {
+  voice?: MMFVoice;
+  preset: InstrumentPreset;
+  drum?: DrumPreset;
+  velocity: number;
+  frequency: number;
+  startTime: number;   // Seconds, on a frame boundary
+  endTime: number;     // Seconds
+  sampleRate: number;
+  maxFrames: number;   // Frames left before the end of the render
+  noise: Float32Array; // Noise every drum starts from, like a context's noise buffer
+  pitchRatios(length: number, vibrato?: boolean): Float32Array;  // Channel pitch bend, and vibrato unless false, from startTime on
+}
+
+type ParamEvent =
+  | { type: 'set' | 'linear' | 'exponential'; time: number; value: number }
+  | { type: 'target'; time: number; value: number; timeConstant: number };
+
+/**
+ * AudioParam automation evaluated in JavaScript, covering the calls the
+ * voices make. Rendering seeks to its start time, so a channel bus with many
+ * events costs each note only the events it spans.
+ */
+class ParamTimeline implements EnvelopeParam {
+  private events: ParamEvent[] = [];
+  private startValues: number[] | null = null;  // Value each event's segment starts from
+
+  setValueAtTime(value: number, time: number): void {
+    this.insert({ type: 'set', time, value });
+  }
+
+  linearRampToValueAtTime(value: number, time: number): void {
+    this.insert({ type: 'linear', time, value });
+  }
+
+  exponentialRampToValueAtTime(value: number, time: number): void {
+    this.insert({ type: 'exponential', time, value });
+  }
+
+  setTargetAtTime(target: number, time: number, timeConstant: number): void {
+    this.insert({ type: 'target', time, value: target, timeConstant });
+  }
+
+  /** Values at length frames from startTime (in seconds). */
+  render(startTime: number, sampleRate: number, length: number): Float32Array {
+    const values = new Float32Array(length);
+    const events = this.events;
+    const startValues = this.getStartValues();
+
+    let index = firstEventAfter(events, startTime);
+
+    // The value set at fromTime, or where a target curve starts from
+    let fromTime = 0;
+    let fromValue = 0;
+    let target: { value: number; timeConstant: number } | null = null;
+    const setSegment = (eventIndex: number) => {
+      const event = events[eventIndex];
+      fromValue = startValues[eventIndex];
+      fromTime = event.time;
+      target = event.type === 'target' ? event : null;
+    };
+    const valueAt = (time: number) => targetValue(target, fromValue, fromTime, time);
+
+    if (index > 0) setSegment(index - 1);
+
+    for (let i = 0; i < length; i++) {
+      const time = startTime + i / sampleRate;
+      while (index < events.length && events[index].time <= time) {
+        setSegment(index++);
+      }
+
+      const next = events[index];
+      if (next && (next.type === 'linear' || next.type === 'exponential')) {
+        const progress = (time - fromTime) / (next.time - fromTime);
+        if (next.type === 'linear') {
+          values[i] = fromValue + (next.value - fromValue) * progress;
+        } else {
+          // Exponential ramps can't cross or touch zero
+          values[i] = fromValue * next.value > 0 ? fromValue * Math.pow(next.value / fromValue, progress) : fromValue;
+        }
+      } else {
+        values[i] = valueAt(time);
+      }
+    }
+
+    return values;
+  }
+
+  // Keep events in time order; later calls at the same time apply after earlier ones
+  private insert(event: ParamEvent): void {
+    const events = this.events;
+    this.startValues = null;
+    if (events.length === 0 || events[events.length - 1].time <= event.time) {
+      events.push(event);
+    } else {
+      events.splice(firstEventAfter(events, event.time), 0, event);
+    }
+  }
+
+  private getStartValues(): number[] {
+    if (!this.startValues) {
+      const events = this.events;
+      const startValues: number[] = [];
+      events.forEach((event, i) => {
+        if (event.type !== 'target') {
+          startValues.push(event.value);
+          return;
+        }
+        // A target curve starts from wherever the previous segment has got to
+        const previous = events[i - 1];
+        startValues.push(previous
+          ? targetValue(previous.type === 'target' ? previous : null, startValues[i - 1], previous.time, event.time)
+          : 0);
+      });
+      this.startValues = startValues;
+    }
+    return this.startValues;
+  }
+}
+
+/** Value of a segment starting at fromValue: constant, or approaching a target. */
+function targetValue(
+  target: { value: number; timeConstant: number } | null,
+  fromValue: number,
+  fromTime: number,
+  time: number
+): number {
+  if (!target) return fromValue;
+  if (target.timeConstant <= 0) return target.value;
+  return target.value + (fromValue - target.value) * Math.exp(-(time - fromTime) / target.timeConstant);
+}
+
+/** Index of the first event after a time, in a list sorted by time. */
+function firstEventAfter(events: ParamEvent[], time: number): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (events[middle].time <= time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Render a song to one Float32Array per output channel.
+ */
+export function renderSongSamples(mmfData: MMFData, settings: SoftwareRenderSettings): Float32Array[] {
+  const { sampleRate, length, synthMode } = settings;
+  const left = new Float32Array(length);
+  const right = new Float32Array(length);
+  const buses = createChannelBuses(mmfData);
+  const noise = createNoise(sampleRate * NOISE_BUFFER_SECONDS);
+
+  // Walk the channel events alongside the notes for each note's bank and program
+  const { notes, channelEvents } = mmfData;
+  const states = new Map<number, ChannelState>();
+  let eventIndex = 0;
+
+  for (const note of notes) {
+    while (eventIndex < channelEvents.length && channelEvents[eventIndex].time <= note.time) {
+      const event = channelEvents[eventIndex++];
+      let state = states.get(event.channel);
+      if (!state) {
+        state = createChannelState();
+        states.set(event.channel, state);
+      }
+      applyChannelEvent(state, event);
+    }
+
+    const startFrame = Math.round(note.time / 1000 * sampleRate);
+    if (startFrame >= length) break;
+
+    const { bank, program } = states.get(note.channel) ?? createChannelState();
+    const bus = buses.get(note.channel)!;
+    const startTime = startFrame / sampleRate;
+    const request: SoftwareVoiceRequest = {
+      voice: mmfData.voices[voiceKey(note.channel, program)],
+      preset: getInstrumentPreset(program),
+      drum: isPercussion(note.channel, bank) ? getDrumPreset(note.note) : undefined,
+      velocity: note.velocity,
+      frequency: 440 * Math.pow(2, (note.note - 69) / 12),
+      startTime,
+      endTime: (note.time + note.duration) / 1000,
+      sampleRate,
+      maxFrames: length - startFrame,
+      noise,
+      pitchRatios: (frames, vibrato = true) => pitchRatios(bus, startTime, sampleRate, frames, vibrato)
+    };
+
+    const samples = synthMode === 'simple' ? renderSimpleVoice(request) : renderFMVoice(request);
+    mixChannel(samples, startFrame, bus, sampleRate, left, right);
+  }
+
+  for (const event of mmfData.audioEvents) {
+    mixAudioEvent(event, mmfData, sampleRate, left, right);
+  }
+
+  if (settings.channels !== 1) return [left, right];
+
+  // Down-mix as Web Audio does for a mono destination
+  const mono = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    mono[i] = 0.5 * (left[i] + right[i]);
+  }
+  return [mono];
+}
+
+/**
+ * A bus for every channel in use, following its channel events from the start.
+ */
+function createChannelBuses(mmfData: MMFData): Map<number, ChannelBus> {
+  const buses = new Map<number, ChannelBus>();
+  const states = new Map<number, ChannelState>();
+
+  const channels = new Set<number>();
+  for (const note of mmfData.notes) channels.add(note.channel);
+  for (const event of mmfData.channelEvents) channels.add(event.channel);
+
+  for (const channel of channels) {
+    const bus: ChannelBus = {
+      gain: new ParamTimeline(),
+      pan: new ParamTimeline(),
+      bend: new ParamTimeline(),
+      vibrato: new ParamTimeline()
+    };
+    const state = createChannelState();
+    applyChannelState(bus, state, 0);
+    buses.set(channel, bus);
+    states.set(channel, state);
+  }
+
+  for (const event of mmfData.channelEvents) {
+    const state = states.get(event.channel)!;
+    applyChannelEvent(state, event);
+    applyChannelState(buses.get(event.channel)!, state, event.time / 1000);
+  }
+
+  return buses;
+}
+
+function applyChannelState(bus: ChannelBus, state: ChannelState, time: number): void {
+  bus.gain.setValueAtTime(channelGain(state), time);
+  bus.pan.setValueAtTime(channelPan(state), time);
+  bus.bend.setValueAtTime(pitchBendCents(state), time);
+  bus.vibrato.setValueAtTime(vibratoCents(state), time);
+}
+
+/** Frequency ratios from a channel's pitch bend and, when vibrato is set, its LFO. */
+function pitchRatios(bus: ChannelBus, startTime: number, sampleRate: number, length: number, vibrato: boolean): Float32Array {
+  const bend = bus.bend.render(startTime, sampleRate, length);
+  const depth = vibrato ? bus.vibrato.render(startTime, sampleRate, length) : new Float32Array(length);
+  const ratios = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const lfo = depth[i] !== 0 ? depth[i] * Math.sin(2 * Math.PI * VIBRATO_RATE * (startTime + i / sampleRate)) : 0;
+    const cents = bend[i] + lfo;
+    ratios[i] = cents !== 0 ? Math.pow(2, cents / 1200) : 1;
+  }
+  return ratios;
+}
+
+/** Add a voice to the output through its channel's gain and equal-power panner. */
+function mixChannel(
+  samples: Float32Array,
+  startFrame: number,
+  bus: ChannelBus,
+  sampleRate: number,
+  left: Float32Array,
+  right: Float32Array
+): void {
+  const length = Math.min(samples.length, left.length - startFrame);
+  if (length <= 0) return;
+  const startTime = startFrame / sampleRate;
+  const gains = bus.gain.render(startTime, sampleRate, length);
+  const pans = bus.pan.render(startTime, sampleRate, length);
+
+  for (let i = 0; i < length; i++) {
+    const value = samples[i] * gains[i];
+    const angle = (pans[i] + 1) / 4 * Math.PI;
+    left[startFrame + i] += value * Math.cos(angle);
+    right[startFrame + i] += value * Math.sin(angle);
+  }
+}
+
+/** Add an audio track wave, resampled to the output rate, without a channel bus. */
+function mixAudioEvent(
+  event: MMFAudioEvent,
+  mmfData: MMFData,
+  sampleRate: number,
+  left: Float32Array,
+  right: Float32Array
+): void {
+  const wave = mmfData.waves[waveKey(event.track, event.wave)];
+  if (!wave || wave.samples[0].length === 0) return;
+
+  // Mono waves go to both sides
+  const [first, second = first] = wave.samples;
+  const startFrame = Math.round(event.time / 1000 * sampleRate);
+  const frames = Math.min(Math.round(event.duration / 1000 * sampleRate), left.length - startFrame);
+  const step = wave.sampleRate / sampleRate;
+
+  for (let i = 0; i < frames; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    if (index >= first.length) break;
+    const fraction = position - index;
+    const next = Math.min(index + 1, first.length - 1);
+    left[startFrame + i] += AUDIO_TRACK_VOLUME * (first[index] + (first[next] - first[index]) * fraction);
+    right[startFrame + i] += AUDIO_TRACK_VOLUME * (second[index] + (second[next] - second[index]) * fraction);
+  }
+}
+
+/**
+ * FM voice as FMVoiceEngine plays it, falling back to the drum kit or bank
+ * preset when the channel has no embedded voice.
+ */
+function renderFMVoice(request: SoftwareVoiceRequest): Float32Array {
+  const { voice, startTime, endTime, sampleRate } = request;
+  if (!voice) {
+    return request.drum ? renderDrumVoice(request, request.drum) : renderPresetVoice(request);
+  }
+
+  const algorithm = ALGORITHMS[voice.algorithm] ?? ALGORITHMS[0];
+  const operators = voice.operators.slice(0, algorithm.modulates.length);
+  const count = operators.length;
+  const carriers = operators.map((_, index) => algorithm.carriers.includes(index));
+
+  let stopTime = endTime;
+  const envelopes = operators.map((operator, index) => {
+    const envelope = new ParamTimeline();
+    const level = operatorLevel(operator.totalLevel) * (carriers[index]
+      ? request.velocity / 127 * MAX_VOLUME_MULTIPLIER / algorithm.carriers.length
+      : 1);
+    stopTime = Math.max(stopTime, scheduleEnvelope(envelope, operator, level, startTime, endTime));
+    return envelope;
+  });
+
+  const length = frameCount(request, stopTime);
+  // Pitch bend moves every operator; the LFO only those flagged for vibrato
+  const ratios = request.pitchRatios(length);
+  const bent = operators.every(operator => operator.vibrato) ? ratios : request.pitchRatios(length, false);
+  const gains = envelopes.map(envelope => envelope.render(startTime, sampleRate, length));
+  const frequencies = operators.map(operator => request.frequency * (operator.multiplier === 0 ? 0.5 : operator.multiplier));
+  const feedbacks = operators.map((operator, index) => feedbackIndex(operator.feedback) * frequencies[index]);
+  const shapes = operators.map(operator => WAVEFORMS[operator.waveform > 0 && operator.waveform < WAVEFORMS.length ? operator.waveform : 0]);
+
+  // Modulators always come before the operators they modulate, so each
+  // operator is rendered in full once its modulation is known
+  const modulation = operators.map(() => new Float32Array(length));  // Hz added to the operator's frequency
+  const samples = new Float32Array(length);
+
+  operators.forEach((operator, op) => {
+    const output = renderOperator(
+      shapes[op],
+      frequencies[op],
+      operator.vibrato ? ratios : bent,
+      modulation[op],
+      gains[op],
+      feedbacks[op],
+      sampleRate
+    );
+    for (const target of algorithm.modulates[op]) {
+      if (target < count) addSamples(modulation[target], output, MAX_MODULATION_INDEX * frequencies[op]);
+    }
+    if (carriers[op]) addSamples(samples, output);
+  });
+
+  return samples;
+}
+
+/**
+ * One FM operator: a waveform whose frequency follows the channel pitch,
+ * modulation and its own output from FEEDBACK_DELAY ago (as the Web Audio
+ * feedback cycle does), scaled by its envelope.
+ */
+function renderOperator(
+  shape: (phase: number) => number,
+  frequency: number,
+  ratios: Float32Array,
+  modulation: Float32Array,
+  gains: Float32Array,
+  feedback: number,
+  sampleRate: number
+): Float32Array {
+  const delay = Math.max(1, Math.round(FEEDBACK_DELAY * sampleRate));
+  const output = new Float32Array(gains.length);
+  let phase = 0;
+  for (let i = 0; i < output.length; i++) {
+    output[i] = shape(phase) * gains[i];
+    const selfModulation = i >= delay ? feedback * output[i - delay] : 0;
+    phase += (frequency * ratios[i] + modulation[i] + selfModulation) / sampleRate;
+    phase -= Math.floor(phase);
+  }
+  return output;
+}
+
+/** Bank preset as playPresetVoice plays it. */
+function renderPresetVoice(request: SoftwareVoiceRequest): Float32Array {
+  const { preset, startTime, endTime, sampleRate } = request;
+  const { attack, decay, sustain, release } = preset.envelope;
+  const detunes = preset.detune > 0 ? [-preset.detune / 2, preset.detune / 2] : [0];
+
+  const peak = request.velocity / 127 * MAX_VOLUME_MULTIPLIER * preset.gain / detunes.length;
+  const attackEnd = Math.min(startTime + attack, endTime);
+  const envelope = new ParamTimeline();
+  envelope.setValueAtTime(0, startTime);
+  envelope.linearRampToValueAtTime(peak, attackEnd);
+  if (attackEnd < endTime) {
+    envelope.setTargetAtTime(peak * sustain, attackEnd, decay / 3);
+  }
+  envelope.setTargetAtTime(0, endTime, release / 3);
+
+  const length = frameCount(request, endTime + release);
+  const ratios = request.pitchRatios(length);
+  const samples = new Float32Array(length);
+  for (const cents of detunes) {
+    addOscillator(samples, preset.waveform, request.frequency * Math.pow(2, cents / 1200), ratios, sampleRate);
+  }
+  if (preset.filter) {
+    applyFilter(samples, preset.filter.type, preset.filter.frequency, preset.filter.q, sampleRate);
+  }
+  applyGain(samples, envelope.render(startTime, sampleRate, length));
+  return samples;
+}
+
+/** Drum sound as playDrumVoice plays it, ringing out for its own decay. */
+function renderDrumVoice(request: SoftwareVoiceRequest, drum: DrumPreset): Float32Array {
+  const { startTime, sampleRate } = request;
+  const level = request.velocity / 127 * MAX_VOLUME_MULTIPLIER * drum.gain;
+  const length = frameCount(request, startTime + Math.max(drum.tone?.decay ?? 0, drum.noise?.decay ?? 0));
+  const samples = new Float32Array(length);
+
+  if (drum.tone) {
+    const { startFrequency, endFrequency, decay } = drum.tone;
+    const frequency = new ParamTimeline();
+    frequency.setValueAtTime(startFrequency, startTime);
+    frequency.exponentialRampToValueAtTime(endFrequency, startTime + decay);
+    const frequencies = frequency.render(startTime, sampleRate, length);
+
+    const tone = new Float32Array(length);
+    let phase = 0;
+    for (let i = 0; i < length; i++) {
+      tone[i] = Math.sin(2 * Math.PI * phase);
+      phase += frequencies[i] / sampleRate;
+      phase -= Math.floor(phase);
+    }
+    applyGain(tone, decayCurve(level, startTime, decay, sampleRate, length));
+    addSamples(samples, tone);
+  }
+
+  if (drum.noise) {
+    const { type, frequency, decay } = drum.noise;
+    // The noise buffer plays once, so a longer decay ends in silence
+    const noise = new Float32Array(length);
+    noise.set(request.noise.subarray(0, length));
+    applyFilter(noise, type, frequency, 1, sampleRate);
+    applyGain(noise, decayCurve(level, startTime, decay, sampleRate, length));
+    addSamples(samples, noise);
+  }
+
+  return samples;
+}
+
+/** Square wave with the fixed envelope of SimpleVoiceEngine. */
+function renderSimpleVoice(request: SoftwareVoiceRequest): Float32Array {
+  const { startTime, endTime, sampleRate } = request;
+  const volume = request.velocity / 127 * MAX_VOLUME_MULTIPLIER;
+  const sustainLevel = volume * 0.7;
+
+  const envelope = new ParamTimeline();
+  envelope.setValueAtTime(volume, startTime);
+  envelope.linearRampToValueAtTime(volume, startTime + 0.01);
+  envelope.linearRampToValueAtTime(sustainLevel, startTime + 0.11);
+  envelope.setValueAtTime(sustainLevel, endTime - 0.1);
+  envelope.linearRampToValueAtTime(0.001, endTime);
+
+  const length = frameCount(request, endTime);
+  const samples = new Float32Array(length);
+  addOscillator(samples, 'square', request.frequency, request.pitchRatios(length), sampleRate);
+  applyGain(samples, envelope.render(startTime, sampleRate, length));
+  return samples;
+}
+
+/** White noise from a seeded generator (mulberry32). */
+function createNoise(length: number): Float32Array {
+  const noise = new Float32Array(length);
+  let state = NOISE_SEED;
+  for (let i = 0; i < length; i++) {
+    state = (state + 0x6D2B79F5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), state | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    noise[i] = ((value ^ (value >>> 14)) >>> 0) / 4294967296 * 2 - 1;
+  }
+  return noise;
+}
+
+/** Frames from a voice's start to stopTime, within the render. */
+function frameCount(request: SoftwareVoiceRequest, stopTime: number): number {
+  const frames = Math.ceil((stopTime - request.startTime) * request.sampleRate);
+  return Math.max(0, Math.min(frames, request.maxFrames));
+}
+
+/** Exponential fade from level to silence over decay seconds, as the drum gains use. */
+function decayCurve(level: number, startTime: number, decay: number, sampleRate: number, length: number): Float32Array {
+  const gain = new ParamTimeline();
+  gain.setValueAtTime(level, startTime);
+  gain.exponentialRampToValueAtTime(0.001, startTime + decay);
+  return gain.render(startTime, sampleRate, length);
+}
+
+function addOscillator(
+  samples: Float32Array,
+  type: OscillatorType,
+  frequency: number,
+  ratios: Float32Array,
+  sampleRate: number
+): void {
+  const shape = OSCILLATOR_SHAPES[type] ?? OSCILLATOR_SHAPES.sine!;
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] += shape(phase);
+    phase += frequency * ratios[i] / sampleRate;
+    phase -= Math.floor(phase);
+  }
+}
+
+/**
+ * Biquad filter with the coefficients Web Audio uses (lowpass and highpass Q
+ * in dB). Other filter types pass the signal through.
+ */
+function applyFilter(samples: Float32Array, type: BiquadFilterType, frequency: number, q: number, sampleRate: number): void {
+  const w0 = 2 * Math.PI * Math.min(frequency, sampleRate / 2) / sampleRate;
+  const cos = Math.cos(w0);
+  let b0: number, b1: number, b2: number;
+  let alpha: number;
+
+  switch (type) {
+    case 'lowpass':
+      alpha = Math.sin(w0) / (2 * Math.pow(10, q / 20));
+      b0 = (1 - cos) / 2;
+      b1 = 1 - cos;
+      b2 = (1 - cos) / 2;
+      break;
+    case 'highpass':
+      alpha = Math.sin(w0) / (2 * Math.pow(10, q / 20));
+      b0 = (1 + cos) / 2;
+      b1 = -(1 + cos);
+      b2 = (1 + cos) / 2;
+      break;
+    case 'bandpass':
+      alpha = Math.sin(w0) / (2 * q);
+      b0 = alpha;
+      b1 = 0;
+      b2 = -alpha;
+      break;
+    default:
+      return;
+  }
+
+  const a0 = 1 + alpha;
+  const a1 = -2 * cos;
+  const a2 = 1 - alpha;
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = (b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    samples[i] = y;
+  }
+}
+
+function applyGain(samples: Float32Array, gains: Float32Array): void {
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] *= gains[i];
+  }
+}
+
+function addSamples(samples: Float32Array, other: Float32Array, gain: number = 1): void {
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] += other[i] * gain;
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { SongScheduler } from './song-scheduler';
+import { FMVoiceEngine } from './fm-synth';
+import { SimpleVoiceEngine, VoiceEngine } from './voice-engine';
+import { SCHEDULE_AHEAD, TICK_INTERVAL } from './mmf-player';
+import { voiceKey, type MMFData, type MMFNote, type MMFOperator } from './mmf-parser';
+
+const NOTE_COUNT = 30000;
+const NOTE_SPACING = 10;  // Milliseconds between note starts
+const CHANNELS = [0, 1, 2, 9];
+
+class StubParam {
+  value = 0;
+  values: number[] = [];  // Values set with setValueAtTime
+  setValueAtTime(value: number) {
+    this.values.push(value);
+    return this;
+  }
+  linearRampToValueAtTime() { return this; }
+  exponentialRampToValueAtTime() { return this; }
+  setTargetAtTime() { return this; }
+}
+
+class StubNode {
+  frequency = new StubParam();
+  detune = new StubParam();
+  gain = new StubParam();
+  offset = new StubParam();
+  pan = new StubParam();
+  Q = new StubParam();
+  delayTime = new StubParam();
+  type = '';
+  buffer: unknown = null;
+  onended: (() => void) | null = null;
+  startTime = 0;
+  stopTime = Infinity;
+  connections: unknown[] = [];
+
+  constructor(private context: StubContext) {}
+
+  connect(target: unknown) {
+    this.connections.push(target);
+  }
+  disconnect() {}
+  setPeriodicWave() {}
+
+  start(time = 0) {
+    this.startTime = time;
+    this.context.playing.add(this);
+  }
+
+  // Without a time, stop now
+  stop(time = this.context.currentTime) {
+    this.stopTime = Math.min(this.stopTime, time);
+  }
+}
+
+/**
+ * Just enough of a BaseAudioContext for the scheduler and voice engines: the
+ * clock moves only when advanced, and sources end once it passes their stop time.
+ */
+class StubContext {
+  currentTime = 0;
+  sampleRate = 8000;
+  destination = new StubNode(this);
+  playing = new Set<StubNode>();  // Sources started and not yet ended
+  longestSource = 0;              // Longest start-to-stop span of an ended source, in seconds
+  oscillators: StubNode[] = [];
+  constantSources: StubNode[] = [];
+
+  createGain() { return new StubNode(this); }
+  createOscillator() { return this.track(this.oscillators); }
+  createConstantSource() { return this.track(this.constantSources); }
+  createStereoPanner() { return new StubNode(this); }
+  createBiquadFilter() { return new StubNode(this); }
+  createBufferSource() { return new StubNode(this); }
+  createDelay() { return new StubNode(this); }
+  createPeriodicWave() { return {}; }
+
+  createBuffer(channels: number, length: number) {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { getChannelData: (channel: number) => data[channel] };
+  }
+
+  track(nodes: StubNode[]) {
+    const node = new StubNode(this);
+    nodes.push(node);
+    return node;
+  }
+
+  advanceTo(time: number) {
+    this.currentTime = time;
+    for (const node of this.playing) {
+      if (node.stopTime > time) continue;
+      this.playing.delete(node);
+      this.longestSource = Math.max(this.longestSource, node.stopTime - node.startTime);
+      node.onended?.();
+    }
+  }
+}
+
+function song(notes: MMFNote[], extra: Partial<MMFData> = {}): MMFData {
+  return {
+    metadata: {},
+    notes,
+    channelEvents: [],
+    duration: Math.max(0, ...notes.map(note => note.time + note.duration)),
+    tempo: 120,
+    tempoMap: [{ tick: 0, time: 0, tempo: 120 }],
+    resolution: 48,
+    timeSignature: { numerator: 4, denominator: 4 },
+    voices: {},
+    audioEvents: [],
+    waves: {},
+    ...extra
+  };
+}
+
+function longSong(): MMFData {
+  const notes: MMFNote[] = [];
+  for (let i = 0; i < NOTE_COUNT; i++) {
+    notes.push({
+      time: i * NOTE_SPACING,
+      note: 48 + (i % 24),
+      duration: 40 + (i % 3) * 10,
+      velocity: 100,
+      channel: CHANNELS[i % CHANNELS.length]
+    });
+  }
+  return song(notes);
+}
+
+describe('SongScheduler look-ahead', () => {
+  const long = longSong();
+
+  it.each<[string, VoiceEngine]>([
+    ['simple', new SimpleVoiceEngine()],
+    ['fm', new FMVoiceEngine()]
+  ])('keeps the %s voice count within the look-ahead window', (_, engine) => {
+    const context = new StubContext();
+    const scheduler = new SongScheduler(context as unknown as BaseAudioContext, long);
+
+    // Drive the scheduler as the player's ticker does
+    const ticks: Array<{ now: number; voices: number }> = [];
+    scheduler.start(engine, 0, 0);
+    for (let tick = 0; tick * TICK_INTERVAL <= long.duration + 2000; tick++) {
+      const now = tick * TICK_INTERVAL / 1000;
+      context.advanceTo(now);
+      scheduler.advance(now * 1000 + SCHEDULE_AHEAD);
+      ticks.push({ now, voices: scheduler.getActiveVoiceCount() });
+    }
+
+    // Everything was played and has ended, leaving only the channel buses' sources
+    expect(context.playing.size).toBe(CHANNELS.length * 2);
+    expect(scheduler.getActiveVoiceCount()).toBe(0);
+
+    // A live voice started before the look-ahead horizon and hasn't outlasted
+    // the longest voice, so only notes starting in that span can be live
+    const windowLength = context.longestSource * 1000 + SCHEDULE_AHEAD;
+    const windowNotes = Math.ceil(windowLength / NOTE_SPACING) + 1;
+    let peak = 0;
+    for (const { now, voices } of ticks) {
+      const from = now * 1000 - context.longestSource * 1000;
+      const to = now * 1000 + SCHEDULE_AHEAD;
+      const inWindow = long.notes.slice(Math.max(0, Math.floor(from / NOTE_SPACING)), Math.ceil(to / NOTE_SPACING))
+        .filter(note => note.time >= from && note.time < to).length;
+      expect(voices).toBeLessThanOrEqual(inWindow);
+      peak = Math.max(peak, voices);
+    }
+
+    expect(peak).toBeGreaterThan(0);
+    expect(peak).toBeLessThanOrEqual(windowNotes);
+    expect(windowNotes).toBeLessThan(NOTE_COUNT / 100);
+  });
+});
+
+describe('SongScheduler channel pitch', () => {
+  it('bends embedded FM voices whose operators have no vibrato', () => {
+    const operator: MMFOperator = {
+      multiplier: 1, detune: 0, totalLevel: 0, keyScaleLevel: 0,
+      attackRate: 15, decayRate: 0, sustainLevel: 0, sustainRate: 0, releaseRate: 8,
+      sustain: true, ignoreKeyOff: false, feedback: 0, waveform: 0,
+      vibrato: false, vibratoDepth: 0, tremolo: false, tremoloDepth: 0
+    };
+    const voice = {
+      bank: 0, program: 0, drumNote: 0, panpot: 15, lfo: 0, pitchEnvelope: false,
+      algorithm: 0, operators: [operator, operator]
+    };
+    const bent = song([{ time: 100, note: 69, duration: 200, velocity: 100, channel: 0 }], {
+      channelEvents: [{ time: 0, channel: 0, type: 'pitchBend', value: 4096 }],
+      voices: { [voiceKey(0, 0)]: voice }
+    });
+
+    const context = new StubContext();
+    const scheduler = new SongScheduler(context as unknown as BaseAudioContext, bent);
+    scheduler.start(new FMVoiceEngine(), 0, 0);
+    scheduler.advance(Infinity);
+
+    // The channel bus starts its bend source and LFO right away, the operators at the note
+    const [bend] = context.constantSources;
+    const lfo = context.oscillators.find(oscillator => oscillator.startTime === 0)!;
+    const operators = context.oscillators.filter(oscillator => oscillator.startTime > 0);
+
+    expect(bend.offset.values).toContain(100);
+    expect(operators).toHaveLength(2);
+    for (const oscillator of operators) {
+      expect(bend.connections).toContain(oscillator.detune);
+      expect((lfo.connections[0] as StubNode).connections).not.toContain(oscillator.detune);
+    }
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Song scheduler
+ * Builds the Web Audio graph for a parsed song on any BaseAudioContext, so live
+ * playback and offline rendering share the same channel and voice logic
+ */
+
+import { MMFAudioEvent, MMFData, MMFNote, voiceKey, waveKey } from './mmf-parser';
+import {
+  applyChannelEvent,
+  channelGain,
+  channelPan,
+  ChannelState,
+  createChannelState,
+  getChannelStatesAt,
+  pitchBendCents,
+  vibratoCents
+} from './channel-state';
+import { ScheduledVoice, VoiceEngine } from './voice-engine';
+import { getDrumPreset, getInstrumentPreset, isPercussion } from './instrument-bank';
+
+// Audio configuration constants
+export const AUDIO_TRACK_VOLUME = 0.8; // Gain for audio track waves (already mixed at full scale)
+export const VIBRATO_RATE = 5.5; // Modulation LFO frequency in Hz
+
+// Bank and program selected on a channel from a point in time on
+interface InstrumentChange {
+  time: number;
+  bank: number;
+  program: number;
+}
+
+// Per-channel signal path: notes -> gain (volume/expression) -> panner -> channel output
+interface ChannelBus {
+  gain: GainNode;
+  panner: StereoPannerNode;
+  bend: ConstantSourceNode;   // Pitch bend in cents, summed into each note's detune
+  vibrato: OscillatorNode;    // Modulation LFO
+  vibratoDepth: GainNode;     // LFO depth in cents, summed into each note's detune
+}
+
+export class SongScheduler {
+  private context: BaseAudioContext;
+  private mmfData: MMFData;
+  private destination: AudioNode;
+  private channelOutput?: (channel: number) => AudioNode;
+  private scheduledVoices = new Set<ScheduledVoice>();
+  private waveBuffers = new Map<string, AudioBuffer>();
+  private channelBuses = new Map<number, ChannelBus>();
+  private channelStates = new Map<number, ChannelState>();
+  private instrumentChanges = new Map<number, InstrumentChange[]>();
+
+  // Position of the pass started by start(): song time fromTime sounds at
+  // context time startAt, and the cursors index the next events to schedule
+  private engine: VoiceEngine | null = null;
+  private fromTime = 0;
+  private startAt = 0;
+  private noteIndex = 0;
+  private channelEventIndex = 0;
+  private audioEventIndex = 0;
+
+  // Playback speed (song milliseconds per context millisecond) and pitch shift
+  private rate = 1;
+  private transpose = 0;
+
+  /**
+   * Channel buses feed channelOutput(channel) when given (e.g. a mixer strip),
+   * otherwise destination, which also receives audio track waves.
+   */
+  constructor(
+    context: BaseAudioContext,
+    mmfData: MMFData,
+    destination: AudioNode = context.destination,
+    channelOutput?: (channel: number) => AudioNode
+  ) {
+    this.context = context;
+    this.mmfData = mmfData;
+    this.destination = destination;
+    this.channelOutput = channelOutput;
+    this.indexInstrumentChanges();
+  }
+
+  /**
+   * Schedule the whole song from a position (in milliseconds) so that position
+   * sounds at context time startAt (in seconds).
+   */
+  schedule(engine: VoiceEngine, fromTime: number = 0, startAt: number = this.context.currentTime): void {
+    this.start(engine, fromTime, startAt);
+    this.advance(Infinity);
+  }
+
+  /**
+   * Begin playing from a position (in milliseconds) at context time startAt
+   * (in seconds): set the channels to their state there and start the notes
+   * and waves still sounding. Everything after it is left to advance().
+   */
+  start(engine: VoiceEngine, fromTime: number = 0, startAt: number = this.context.currentTime): void {
+    this.clear();
+    this.engine = engine;
+    this.fromTime = fromTime;
+    this.startAt = startAt;
+    this.setupChannels(fromTime, startAt);
+
+    const { notes, channelEvents, audioEvents } = this.mmfData;
+    this.noteIndex = firstIndexAt(notes, fromTime);
+    this.channelEventIndex = firstIndexAt(channelEvents, fromTime);
+    this.audioEventIndex = firstIndexAt(audioEvents, fromTime);
+
+    for (let i = 0; i < this.noteIndex; i++) {
+      const note = notes[i];
+      if (note.time + note.duration > fromTime) {
+        this.playNote(engine, note, startAt, this.toContextTime(note.time + note.duration));
+      }
+    }
+
+    for (let i = 0; i < this.audioEventIndex; i++) {
+      const event = audioEvents[i];
+      if (event.time + event.duration > fromTime) {
+        this.playAudioEvent(event, startAt, (fromTime - event.time) / 1000);
+      }
+    }
+  }
+
+  /**
+   * Continue from another song position (in milliseconds) at context time
+   * startAt, keeping everything already scheduled, as when a loop wraps.
+   * The channels take their state at the new position.
+   */
+  jump(fromTime: number, startAt: number): void {
+    if (!this.engine) return;
+    this.fromTime = fromTime;
+    this.startAt = startAt;
+
+    const { notes, channelEvents, audioEvents } = this.mmfData;
+    const states = getChannelStatesAt(channelEvents, fromTime);
+    for (const [channel, bus] of this.channelBuses) {
+      const state = states.get(channel) ?? createChannelState();
+      this.channelStates.set(channel, state);
+      this.applyChannelState(bus, state, startAt);
+    }
+
+    this.noteIndex = firstIndexAt(notes, fromTime);
+    this.channelEventIndex = firstIndexAt(channelEvents, fromTime);
+    this.audioEventIndex = firstIndexAt(audioEvents, fromTime);
+  }
+
+  /**
+   * Schedule the events that start before a song position (in milliseconds)
+   * and haven't been scheduled yet.
+   */
+  advance(untilTime: number): void {
+    if (!this.engine) return;
+    const { notes, channelEvents, audioEvents } = this.mmfData;
+
+    while (this.channelEventIndex < channelEvents.length && channelEvents[this.channelEventIndex].time < untilTime) {
+      const event = channelEvents[this.channelEventIndex++];
+      const state = this.channelStates.get(event.channel);
+      const bus = this.channelBuses.get(event.channel);
+      if (!state || !bus) continue;
+      applyChannelEvent(state, event);
+      this.applyChannelState(bus, state, this.toContextTime(event.time));
+    }
+
+    while (this.noteIndex < notes.length && notes[this.noteIndex].time < untilTime) {
+      const note = notes[this.noteIndex++];
+      this.playNote(this.engine, note, this.toContextTime(note.time), this.toContextTime(note.time + note.duration));
+    }
+
+    while (this.audioEventIndex < audioEvents.length && audioEvents[this.audioEventIndex].time < untilTime) {
+      const event = audioEvents[this.audioEventIndex++];
+      this.playAudioEvent(event, this.toContextTime(event.time), 0);
+    }
+  }
+
+  /**
+   * Play faster or slower without changing pitch; takes effect at the next
+   * start(). Audio track waves keep their own speed.
+   */
+  setRate(rate: number): void {
+    this.rate = rate;
+  }
+
+  /** Shift note pitches by semitones, drums excepted; takes effect at the next start(). */
+  setTranspose(semitones: number): void {
+    this.transpose = semitones;
+  }
+
+  /** Number of voices scheduled and not yet finished. */
+  getActiveVoiceCount(): number {
+    return this.scheduledVoices.size;
+  }
+
+  /** Silence and release everything scheduled so far. */
+  clear(): void {
+    for (const voice of this.scheduledVoices) {
+      try {
+        voice.stop();
+        voice.disconnect();
+      } catch (error) {
+        // Ignore errors when stopping already stopped notes
+      }
+    }
+    this.scheduledVoices.clear();
+    this.clearChannelBuses();
+    this.engine = null;
+  }
+
+  private toContextTime(time: number): number {
+    return this.startAt + (time - this.fromTime) / 1000 / this.rate;
+  }
+
+  /**
+   * Create a bus for every channel in use and set it to the channel state at
+   * fromTime. Later channel events are applied by advance().
+   */
+  private setupChannels(fromTime: number, startAt: number): void {
+    const { notes, channelEvents } = this.mmfData;
+    const states = getChannelStatesAt(channelEvents, fromTime);
+
+    const channels = new Set<number>();
+    for (const note of notes) channels.add(note.channel);
+    for (const event of channelEvents) channels.add(event.channel);
+
+    for (const channel of channels) {
+      const state = states.get(channel) ?? createChannelState();
+      states.set(channel, state);
+      const bus = this.createChannelBus(channel);
+      this.applyChannelState(bus, state, startAt);
+      this.channelBuses.set(channel, bus);
+    }
+    this.channelStates = states;
+  }
+
+  private createChannelBus(channel: number): ChannelBus {
+    const context = this.context;
+    const gain = context.createGain();
+    const panner = context.createStereoPanner();
+    const bend = context.createConstantSource();
+    const vibrato = context.createOscillator();
+    const vibratoDepth = context.createGain();
+
+    gain.connect(panner);
+    panner.connect(this.channelOutput?.(channel) ?? this.destination);
+
+    bend.offset.value = 0;
+    vibrato.frequency.value = VIBRATO_RATE;
+    vibratoDepth.gain.value = 0;
+    vibrato.connect(vibratoDepth);
+
+    bend.start();
+    vibrato.start();
+
+    return { gain, panner, bend, vibrato, vibratoDepth };
+  }
+
+  private applyChannelState(bus: ChannelBus, state: ChannelState, time: number): void {
+    bus.gain.gain.setValueAtTime(channelGain(state), time);
+    bus.panner.pan.setValueAtTime(channelPan(state), time);
+    bus.bend.offset.setValueAtTime(pitchBendCents(state), time);
+    bus.vibratoDepth.gain.setValueAtTime(vibratoCents(state), time);
+  }
+
+  private clearChannelBuses(): void {
+    for (const bus of this.channelBuses.values()) {
+      try {
+        bus.bend.stop();
+        bus.vibrato.stop();
+      } catch (error) {
+        // Ignore errors when stopping already stopped sources
+      }
+      bus.bend.disconnect();
+      bus.vibrato.disconnect();
+      bus.vibratoDepth.disconnect();
+      bus.gain.disconnect();
+      bus.panner.disconnect();
+    }
+    this.channelBuses.clear();
+  }
+
+  private playAudioEvent(event: MMFAudioEvent, startTime: number, offset: number): void {
+    const buffer = this.getWaveBuffer(waveKey(event.track, event.wave));
+    if (!buffer) return;
+
+    try {
+      const source = this.context.createBufferSource();
+      const gainNode = this.context.createGain();
+
+      source.buffer = buffer;
+      gainNode.gain.value = AUDIO_TRACK_VOLUME;
+
+      source.connect(gainNode);
+      gainNode.connect(this.destination);
+
+      source.start(startTime, offset, event.duration / 1000 - offset);
+
+      this.trackVoice({
+        source,
+        stop: () => source.stop(),
+        disconnect: () => {
+          source.disconnect();
+          gainNode.disconnect();
+        }
+      });
+    } catch (error) {
+      console.error('Error playing audio event:', error);
+    }
+  }
+
+  private getWaveBuffer(key: string): AudioBuffer | null {
+    const cached = this.waveBuffers.get(key);
+    if (cached) return cached;
+
+    const wave = this.mmfData.waves[key];
+    if (!wave || wave.samples[0].length === 0) return null;
+
+    // AudioBuffer resamples low-rate ringtone audio (4-44.1 kHz) on playback
+    const buffer = this.context.createBuffer(wave.samples.length, wave.samples[0].length, wave.sampleRate);
+    wave.samples.forEach((samples, channel) => buffer.getChannelData(channel).set(samples));
+    this.waveBuffers.set(key, buffer);
+    return buffer;
+  }
+
+  private playNote(engine: VoiceEngine, note: MMFNote, startTime: number, endTime: number): void {
+    try {
+      // Route through the channel bus, with pitch bend and vibrato on detune
+      const bus = this.channelBuses.get(note.channel);
+      const { bank, program } = this.instrumentAt(note.channel, note.time);
+      const drum = isPercussion(note.channel, bank);
+      const voice = engine.playNote(this.context, {
+        channel: note.channel,
+        program,
+        voice: this.mmfData.voices[voiceKey(note.channel, program)],
+        preset: getInstrumentPreset(program),
+        drum: drum ? getDrumPreset(note.note) : undefined,
+        note: note.note,
+        velocity: note.velocity,
+        frequency: this.midiNoteToFrequency(note.note + (drum ? 0 : this.transpose)),
+        startTime,
+        endTime,
+        destination: bus?.gain ?? this.destination,
+        detuneSources: bus ? [bus.bend] : [],
+        vibratoSources: bus ? [bus.vibratoDepth] : []
+      });
+
+      this.trackVoice(voice);
+    } catch (error) {
+      console.error('Error playing note:', error);
+    }
+  }
+
+  private indexInstrumentChanges(): void {
+    for (const event of this.mmfData.channelEvents) {
+      if (event.type !== 'program' && event.type !== 'bankSelect') continue;
+      let changes = this.instrumentChanges.get(event.channel);
+      if (!changes) {
+        changes = [];
+        this.instrumentChanges.set(event.channel, changes);
+      }
+      const current = changes[changes.length - 1] ?? { bank: 0, program: 0 };
+      changes.push({
+        time: event.time,
+        bank: event.type === 'bankSelect' ? event.value : current.bank,
+        program: event.type === 'program' ? event.value : current.program
+      });
+    }
+  }
+
+  /** Bank and program selected on a channel at a given time (in milliseconds). */
+  private instrumentAt(channel: number, time: number): { bank: number; program: number } {
+    const changes = this.instrumentChanges.get(channel);
+    if (!changes) return { bank: 0, program: 0 };
+    const index = firstIndexAt(changes, time, true);
+    return index > 0 ? changes[index - 1] : { bank: 0, program: 0 };
+  }
+
+  private trackVoice(voice: ScheduledVoice): void {
+    // Track scheduled voices for cleanup
+    this.scheduledVoices.add(voice);
+
+    // Clean up after the voice ends
+    voice.source.onended = () => {
+      this.scheduledVoices.delete(voice);
+      voice.disconnect();
+    };
+  }
+
+  private midiNoteToFrequency(note: number): number {
+    // MIDI note to frequency conversion
+    // A4 (MIDI note 69) = 440 Hz
+    return 440 * Math.pow(2, (note - 69) / 12);
+  }
+}
+
+/**
+ * Index of the first event at or after a time (or after it, when inclusive is
+ * set) in a list sorted by time.
+ */
+function firstIndexAt(events: Array<{ time: number }>, time: number, inclusive: boolean = false): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const before = inclusive ? events[middle].time <= time : events[middle].time < time;
+    if (before) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
@@ -0,0 +1,80 @@
+/**
+ * Tempo map helpers
+ * Converts between tick positions and milliseconds across tempo changes
+ */
+
+import type { MMFTempoSegment } from './mmf-parser';
+
+export const DEFAULT_TEMPO = 120; // Default tempo in BPM
+
+export interface TempoChange {
+  tick: number;   // Position in ticks
+  tempo: number;  // New tempo in BPM
+}
+
+/**
+ * Build a tempo map from (possibly unordered) tempo changes.
+ * The map always starts at tick 0; a change at tick 0 replaces the initial tempo.
+ */
+export function buildTempoMap(
+  changes: TempoChange[],
+  resolution: number,
+  initialTempo: number = DEFAULT_TEMPO
+): MMFTempoSegment[] {
+  const segments: MMFTempoSegment[] = [{ tick: 0, time: 0, tempo: initialTempo }];
+  const sorted = changes
+    .filter(change => change.tempo > 0)
+    .sort((a, b) => a.tick - b.tick);
+
+  for (const change of sorted) {
+    const last = segments[segments.length - 1];
+    if (change.tick <= last.tick) {
+      last.tempo = change.tempo;
+      continue;
+    }
+    if (change.tempo === last.tempo) continue;
+
+    segments.push({
+      tick: change.tick,
+      time: last.time + (change.tick - last.tick) * msPerTick(last.tempo, resolution),
+      tempo: change.tempo
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Convert a tick position to milliseconds by integrating across tempo segments.
+ */
+export function tickToMs(tempoMap: MMFTempoSegment[], resolution: number, tick: number): number {
+  const segment = tempoMap[findSegment(tempoMap, seg => seg.tick <= tick)];
+  return segment.time + (tick - segment.tick) * msPerTick(segment.tempo, resolution);
+}
+
+/**
+ * Convert milliseconds to a (fractional) tick position.
+ */
+export function msToTick(tempoMap: MMFTempoSegment[], resolution: number, ms: number): number {
+  const segment = tempoMap[findSegment(tempoMap, seg => seg.time <= ms)];
+  return segment.tick + (ms - segment.time) / msPerTick(segment.tempo, resolution);
+}
+
+function msPerTick(tempo: number, resolution: number): number {
+  return 60000 / (tempo * resolution);
+}
+
+// Binary search for the last segment matching the predicate (segment 0 always applies)
+function findSegment(tempoMap: MMFTempoSegment[], starts: (segment: MMFTempoSegment) => boolean): number {
+  let low = 0;
+  let high = tempoMap.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts(tempoMap[mid])) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,264 @@
+/**
+ * Voice engines
+ * Turn a note into scheduled Web Audio nodes; MMFPlayer delegates all sound generation here
+ */
+
+import { FMVoiceEngine } from './fm-synth';
+import type { DrumPreset, InstrumentPreset } from './instrument-bank';
+import type { MMFVoice } from './mmf-parser';
+
+export type SynthMode = 'fm' | 'simple';
+
+// Audio configuration constants
+export const MAX_VOLUME_MULTIPLIER = 0.3; // Max volume to avoid clipping (30% of full volume)
+export const NOISE_BUFFER_SECONDS = 2;
+
+// Noise buffers are bound to the context that created them
+const noiseCache = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+export interface VoiceRequest {
+  channel: number;          // MIDI channel
+  program: number;          // Channel program at note on
+  voice?: MMFVoice;         // Voice embedded in the file for this channel/program
+  preset: InstrumentPreset; // Built-in bank preset for the program
+  drum?: DrumPreset;        // Drum kit sound when the channel plays percussion
+  note: number;             // MIDI note number
+  velocity: number;         // Velocity (0-127)
+  frequency: number;        // Base frequency in Hz
+  startTime: number;        // AudioContext time of note on
+  endTime: number;          // AudioContext time of note off
+  destination: AudioNode;   // Where the voice output goes
+  detuneSources: AudioNode[]; // Pitch bend nodes whose output (in cents) is summed into the pitch
+  vibratoSources: AudioNode[]; // LFO nodes, in cents; FM operators follow them only when flagged for vibrato
+}
+
+export interface ScheduledVoice {
+  source: AudioScheduledSourceNode;  // The node that ends last; its onended marks the voice as done
+  stop(): void;                      // Silence the voice immediately
+  disconnect(): void;                // Release all nodes of the voice
+}
+
+export interface VoiceEngine {
+  readonly mode: SynthMode;
+  playNote(context: BaseAudioContext, request: VoiceRequest): ScheduledVoice;
+}
+
+export function createVoiceEngine(mode: SynthMode): VoiceEngine {
+  return mode === 'simple' ? new SimpleVoiceEngine() : new FMVoiceEngine();
+}
+
+/**
+ * Single oscillator with a fixed ADSR envelope.
+ */
+export class SimpleVoiceEngine implements VoiceEngine {
+  readonly mode = 'simple' as const;
+
+  playNote(context: BaseAudioContext, request: VoiceRequest): ScheduledVoice {
+    const { startTime, endTime } = request;
+
+    // Create oscillator for the note
+    const oscillator = context.createOscillator();
+    const gainNode = context.createGain();
+
+    oscillator.frequency.value = request.frequency;
+
+    // Use a simple waveform
+    oscillator.type = 'square';
+
+    // Set volume based on velocity
+    const volume = request.velocity / 127 * MAX_VOLUME_MULTIPLIER;
+    gainNode.gain.setValueAtTime(volume, startTime);
+
+    // Add envelope (ADSR)
+    const attackTime = 0.01;
+    const decayTime = 0.1;
+    const sustainLevel = volume * 0.7;
+    const releaseTime = 0.1;
+
+    gainNode.gain.linearRampToValueAtTime(volume, startTime + attackTime);
+    gainNode.gain.linearRampToValueAtTime(sustainLevel, startTime + attackTime + decayTime);
+    gainNode.gain.setValueAtTime(sustainLevel, endTime - releaseTime);
+    gainNode.gain.linearRampToValueAtTime(0.001, endTime);
+
+    // Connect nodes
+    oscillator.connect(gainNode);
+    gainNode.connect(request.destination);
+    for (const source of pitchSources(request)) {
+      source.connect(oscillator.detune);
+    }
+
+    // Schedule start and stop
+    oscillator.start(startTime);
+    oscillator.stop(endTime);
+
+    return {
+      source: oscillator,
+      stop: () => oscillator.stop(),
+      disconnect: () => {
+        disconnectDetune(pitchSources(request), oscillator);
+        oscillator.disconnect();
+        gainNode.disconnect();
+      }
+    };
+  }
+}
+
+/**
+ * Play a note with a built-in bank preset: one or two detuned oscillators,
+ * an optional filter and an ADSR envelope.
+ */
+export function playPresetVoice(context: BaseAudioContext, request: VoiceRequest): ScheduledVoice {
+  const { preset, startTime, endTime } = request;
+  const { attack, decay, sustain, release } = preset.envelope;
+
+  const envelope = context.createGain();
+  const nodes: AudioNode[] = [envelope];
+  let input: AudioNode = envelope;
+
+  if (preset.filter) {
+    const filter = context.createBiquadFilter();
+    filter.type = preset.filter.type;
+    filter.frequency.value = preset.filter.frequency;
+    filter.Q.value = preset.filter.q;
+    filter.connect(envelope);
+    nodes.push(filter);
+    input = filter;
+  }
+
+  const detunes = preset.detune > 0 ? [-preset.detune / 2, preset.detune / 2] : [0];
+  const oscillators = detunes.map(cents => {
+    const oscillator = context.createOscillator();
+    oscillator.type = preset.waveform;
+    oscillator.frequency.value = request.frequency;
+    oscillator.detune.value = cents;
+    oscillator.connect(input);
+    for (const source of pitchSources(request)) {
+      source.connect(oscillator.detune);
+    }
+    return oscillator;
+  });
+
+  // ADSR envelope, cut short when the note ends before the decay does
+  const peak = request.velocity / 127 * MAX_VOLUME_MULTIPLIER * preset.gain / oscillators.length;
+  const attackEnd = Math.min(startTime + attack, endTime);
+  envelope.gain.setValueAtTime(0, startTime);
+  envelope.gain.linearRampToValueAtTime(peak, attackEnd);
+  if (attackEnd < endTime) {
+    envelope.gain.setTargetAtTime(peak * sustain, attackEnd, decay / 3);
+  }
+  envelope.gain.setTargetAtTime(0, endTime, release / 3);
+  envelope.connect(request.destination);
+
+  const stopTime = endTime + release;
+  for (const oscillator of oscillators) {
+    oscillator.start(startTime);
+    oscillator.stop(stopTime);
+  }
+
+  return {
+    source: oscillators[oscillators.length - 1],
+    stop: () => {
+      for (const oscillator of oscillators) oscillator.stop();
+    },
+    disconnect: () => {
+      for (const oscillator of oscillators) {
+        disconnectDetune(pitchSources(request), oscillator);
+        oscillator.disconnect();
+      }
+      for (const node of nodes) node.disconnect();
+    }
+  };
+}
+
+/**
+ * Play a drum sound: a pitch-swept sine, filtered noise, or both.
+ * Drums ignore the note length and ring out for their own decay.
+ */
+export function playDrumVoice(context: BaseAudioContext, request: VoiceRequest, drum: DrumPreset): ScheduledVoice {
+  const { startTime } = request;
+  const level = request.velocity / 127 * MAX_VOLUME_MULTIPLIER * drum.gain;
+  const sources: AudioScheduledSourceNode[] = [];
+  const nodes: AudioNode[] = [];
+  let stopTime = startTime;
+
+  if (drum.tone) {
+    const { startFrequency, endFrequency, decay } = drum.tone;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.setValueAtTime(startFrequency, startTime);
+    oscillator.frequency.exponentialRampToValueAtTime(endFrequency, startTime + decay);
+    gain.gain.setValueAtTime(level, startTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, startTime + decay);
+    oscillator.connect(gain);
+    gain.connect(request.destination);
+    sources.push(oscillator);
+    nodes.push(gain);
+    stopTime = Math.max(stopTime, startTime + decay);
+  }
+
+  if (drum.noise) {
+    const { type, frequency, decay } = drum.noise;
+    const noise = context.createBufferSource();
+    const filter = context.createBiquadFilter();
+    const gain = context.createGain();
+    noise.buffer = getNoiseBuffer(context);
+    filter.type = type;
+    filter.frequency.value = frequency;
+    gain.gain.setValueAtTime(level, startTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, startTime + decay);
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(request.destination);
+    sources.push(noise);
+    nodes.push(filter, gain);
+    stopTime = Math.max(stopTime, startTime + decay);
+  }
+
+  for (const source of sources) {
+    source.start(startTime);
+    source.stop(stopTime);
+  }
+
+  return {
+    source: sources[sources.length - 1],
+    stop: () => {
+      for (const source of sources) source.stop();
+    },
+    disconnect: () => {
+      for (const source of sources) source.disconnect();
+      for (const node of nodes) node.disconnect();
+    }
+  };
+}
+
+function getNoiseBuffer(context: BaseAudioContext): AudioBuffer {
+  let buffer = noiseCache.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate * NOISE_BUFFER_SECONDS, context.sampleRate);
+    const samples = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.random() * 2 - 1;
+    }
+    noiseCache.set(context, buffer);
+  }
+  return buffer;
+}
+
+/**
+ * Detach shared modulation sources from an oscillator's detune.
+ */
+/** Bend and vibrato sources, for voices that follow both on every oscillator. */
+export function pitchSources(request: VoiceRequest): AudioNode[] {
+  return [...request.detuneSources, ...request.vibratoSources];
+}
+
+export function disconnectDetune(sources: AudioNode[], oscillator: OscillatorNode): void {
+  for (const source of sources) {
+    try {
+      source.disconnect(oscillator.detune);
+    } catch (error) {
+      // Already disconnected when the source was torn down
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * WAV encoder
+ * Writes float samples as a 16-bit linear PCM RIFF/WAVE file
+ */
+
+const BITS_PER_SAMPLE = 16;
+const BYTES_PER_SAMPLE = BITS_PER_SAMPLE / 8;
+const HEADER_SIZE = 44;
+const WAVE_FORMAT_PCM = 1;
+
+/**
+ * Encode one Float32Array of samples (-1..1) per channel as a WAV file.
+ * Channels are interleaved frame by frame; samples outside -1..1 are clipped.
+ */
+export function encodeWAV(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const channelCount = channels.length;
+  const frames = channelCount > 0 ? channels[0].length : 0;
+  const blockAlign = channelCount * BYTES_PER_SAMPLE;
+  const dataSize = frames * blockAlign;
+
+  const buffer = new ArrayBuffer(HEADER_SIZE + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, HEADER_SIZE - 8 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // Format chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BITS_PER_SAMPLE, true);
+
+  // Data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channelCount; ch++) {
+      const sample = Math.max(-1, Math.min(1, channels[ch][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return buffer;
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
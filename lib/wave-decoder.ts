@@ -0,0 +1,111 @@
+/**
+ * SMAF wave data decoder
+ * Decodes audio track wave data (YAMAHA ADPCM and linear PCM) to float samples
+ */
+
+export const WAVE_FORMAT_PCM = 0x00;          // Two's complement PCM
+export const WAVE_FORMAT_ADPCM = 0x01;        // YAMAHA ADPCM
+export const WAVE_FORMAT_OFFSET_BINARY = 0x02; // Offset binary PCM
+
+// Sampling frequency codes used by the audio track wave type
+const SAMPLE_RATES = [4000, 8000, 11025, 22050, 44100];
+
+// Bits per sample by base bit code (upper nibble of the base bit byte)
+const BASE_BITS = [4, 4, 8, 12, 16];
+
+// YAMAHA ADPCM step tables
+const ADPCM_DIFF_LOOKUP = [1, 3, 5, 7, 9, 11, 13, 15, -1, -3, -5, -7, -9, -11, -13, -15];
+const ADPCM_INDEX_SCALE = [230, 230, 230, 230, 307, 409, 512, 614, 230, 230, 230, 230, 307, 409, 512, 614];
+const ADPCM_MIN_STEP = 127;
+const ADPCM_MAX_STEP = 24576;
+
+export interface WaveFormat {
+  format: number;      // WAVE_FORMAT_* value
+  sampleRate: number;  // Samples per second
+  channels: number;    // 1 (mono) or 2 (stereo)
+  bits: number;        // Bits per sample
+}
+
+/**
+ * Unpack the audio track wave type fields.
+ * waveType: (stereo << 7) | (format << 4) | sampling frequency code
+ */
+export function parseWaveFormat(waveType: number, baseBit: number): WaveFormat | null {
+  const sampleRate = SAMPLE_RATES[waveType & 0x0F];
+  const bits = BASE_BITS[baseBit >> 4];
+  if (sampleRate === undefined || bits === undefined) return null;
+
+  return {
+    format: (waveType >> 4) & 0x07,
+    sampleRate,
+    channels: waveType & 0x80 ? 2 : 1,
+    bits
+  };
+}
+
+/**
+ * Decode wave data to one Float32Array of samples (-1..1) per channel.
+ * Stereo data is interleaved sample by sample.
+ */
+export function decodeWave(data: Uint8Array, format: WaveFormat): Float32Array[] {
+  const interleaved = format.format === WAVE_FORMAT_ADPCM
+    ? decodeYamahaADPCM(data, format.channels)
+    : decodeLinearPCM(data, format.bits, format.format === WAVE_FORMAT_OFFSET_BINARY);
+
+  const frames = Math.floor(interleaved.length / format.channels);
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < format.channels; ch++) {
+    const samples = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      samples[i] = interleaved[i * format.channels + ch];
+    }
+    channels.push(samples);
+  }
+  return channels;
+}
+
+/**
+ * Decode 4-bit YAMAHA ADPCM (low nibble first), keeping one predictor per channel.
+ */
+function decodeYamahaADPCM(data: Uint8Array, channels: number): Float32Array {
+  const samples = new Float32Array(data.length * 2);
+  const predictor = new Array<number>(channels).fill(0);
+  const step = new Array<number>(channels).fill(ADPCM_MIN_STEP);
+
+  for (let i = 0; i < samples.length; i++) {
+    const byte = data[i >> 1];
+    const nibble = i & 1 ? byte >> 4 : byte & 0x0F;
+    const ch = i % channels;
+
+    predictor[ch] += Math.trunc(step[ch] * ADPCM_DIFF_LOOKUP[nibble] / 8);
+    predictor[ch] = Math.max(-32768, Math.min(32767, predictor[ch]));
+    step[ch] = (step[ch] * ADPCM_INDEX_SCALE[nibble]) >> 8;
+    step[ch] = Math.max(ADPCM_MIN_STEP, Math.min(ADPCM_MAX_STEP, step[ch]));
+
+    samples[i] = predictor[ch] / 32768;
+  }
+
+  return samples;
+}
+
+/**
+ * Decode big-endian linear PCM. 12-bit samples are stored in 16-bit words.
+ */
+function decodeLinearPCM(data: Uint8Array, bits: number, offsetBinary: boolean): Float32Array {
+  const bytesPerSample = bits > 8 ? 2 : 1;
+  const samples = new Float32Array(Math.floor(data.length / bytesPerSample));
+
+  for (let i = 0; i < samples.length; i++) {
+    let value: number;
+    if (bytesPerSample === 1) {
+      value = offsetBinary ? data[i] - 128 : (data[i] << 24) >> 24;
+      samples[i] = value / 128;
+    } else {
+      const word = (data[i * 2] << 8) | data[i * 2 + 1];
+      value = offsetBinary ? word - 32768 : (word << 16) >> 16;
+      samples[i] = value / 32768;
+    }
+  }
+
+  return samples;
+}
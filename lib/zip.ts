@@ -0,0 +1,167 @@
+/**
+ * ZIP archive reader
+ * Lists entries from the central directory and extracts stored or deflated
+ * entries, which covers archives made by phones and PC tools. File names
+ * without the UTF-8 flag are read as Shift_JIS, as Japanese Windows writes them.
+ */
+
+import { inflateRaw } from './inflate';
+import { crc32 } from './crc';
+import { decodeShiftJIS } from './shift-jis';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054B50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014B50;
+const LOCAL_FILE_HEADER = 0x04034B50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xFFFF;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const LOCAL_FILE_HEADER_SIZE = 30;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+const EXTRA_UNICODE_PATH = 0x7075; // Info-ZIP UTF-8 name, for archivers that don't set FLAG_UTF8
+
+export const METHOD_STORED = 0;
+export const METHOD_DEFLATED = 8;
+
+export interface ZipEntry {
+  path: string;           // Full path inside the archive, '/'-separated
+  directory: boolean;
+  encrypted: boolean;
+  method: number;         // Compression method (METHOD_STORED, METHOD_DEFLATED, ...)
+  crc: number;            // CRC-32 of the uncompressed data
+  compressedSize: number;
+  size: number;           // Uncompressed size
+  offset: number;         // Offset of the local file header
+}
+
+/** List the entries of a ZIP archive in central directory order. */
+export function readZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const data = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  const end = findEndOfCentralDirectory(view);
+  if (end < 0) {
+    throw new Error('Invalid ZIP file: end of central directory not found');
+  }
+  const entryCount = view.getUint16(end + 10, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  if (entryCount === 0xFFFF || directoryOffset === 0xFFFFFFFF) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let position = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (position + CENTRAL_DIRECTORY_HEADER_SIZE > data.length ||
+        view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Invalid ZIP file: central directory entry ${i} is corrupt`);
+    }
+
+    const flags = view.getUint16(position + 8, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const nameStart = position + CENTRAL_DIRECTORY_HEADER_SIZE;
+    const nameBytes = data.subarray(nameStart, nameStart + nameLength);
+    const extra = data.subarray(nameStart + nameLength, nameStart + nameLength + extraLength);
+
+    const path = decodeEntryName(nameBytes, flags, extra).replace(/\\/g, '/');
+    entries.push({
+      path,
+      directory: path.endsWith('/'),
+      encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      method: view.getUint16(position + 10, true),
+      crc: view.getUint32(position + 16, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      offset: view.getUint32(position + 42, true)
+    });
+
+    position = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/** Uncompressed contents of an entry, checked against its CRC-32. */
+export function extractZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Uint8Array<ArrayBuffer> {
+  if (entry.encrypted) {
+    throw new Error(`${entry.path}: encrypted entries are not supported`);
+  }
+
+  const data = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (entry.offset + LOCAL_FILE_HEADER_SIZE > data.length ||
+      view.getUint32(entry.offset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`${entry.path}: local file header not found`);
+  }
+
+  // The local header's name and extra field may differ in length from the central directory's
+  const nameLength = view.getUint16(entry.offset + 26, true);
+  const extraLength = view.getUint16(entry.offset + 28, true);
+  const start = entry.offset + LOCAL_FILE_HEADER_SIZE + nameLength + extraLength;
+  if (start + entry.compressedSize > data.length) {
+    throw new Error(`${entry.path}: data runs past the end of the archive`);
+  }
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  let contents: Uint8Array<ArrayBuffer>;
+  if (entry.method === METHOD_STORED) {
+    contents = compressed.slice();
+  } else if (entry.method === METHOD_DEFLATED) {
+    try {
+      contents = inflateRaw(compressed, entry.size);
+    } catch (error) {
+      throw new Error(`${entry.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    throw new Error(`${entry.path}: compression method ${entry.method} is not supported`);
+  }
+
+  if (contents.length !== entry.size || crc32(contents) !== entry.crc) {
+    throw new Error(`${entry.path}: CRC mismatch (archive is damaged)`);
+  }
+  return contents;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is last in the file, followed only by the archive comment
+  const earliest = Math.max(0, view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  for (let position = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; position >= earliest; position--) {
+    if (view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY) return position;
+  }
+  return -1;
+}
+
+function decodeEntryName(bytes: Uint8Array, flags: number, extra: Uint8Array): string {
+  if (flags & FLAG_UTF8) return new TextDecoder('utf-8').decode(bytes);
+
+  const unicodePath = readUnicodePath(bytes, extra);
+  if (unicodePath !== null) return unicodePath;
+
+  // Names from tools that write UTF-8 without the flag are valid UTF-8;
+  // Shift_JIS names almost never are
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return decodeShiftJIS(bytes);
+  }
+}
+
+/** UTF-8 name from an Info-ZIP Unicode path field, if it matches the stored name. */
+function readUnicodePath(name: Uint8Array, extra: Uint8Array): string | null {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  for (let position = 0; position + 4 <= extra.length;) {
+    const id = view.getUint16(position, true);
+    const size = view.getUint16(position + 2, true);
+    const field = extra.subarray(position + 4, position + 4 + size);
+    // Version 1, then the CRC-32 of the name it replaces
+    if (id === EXTRA_UNICODE_PATH && field.length >= 5 && field[0] === 1 &&
+        new DataView(field.buffer, field.byteOffset + 1, 4).getUint32(0, true) === crc32(name)) {
+      return new TextDecoder('utf-8').decode(field.subarray(5));
+    }
+    position += 4 + size;
+  }
+  return null;
+}